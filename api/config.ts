@@ -0,0 +1,86 @@
+// Instance settings, read from environment variables (see README for the full list).
+// Read lazily so tests and long-running processes pick up changes to process.env.
+
+// How speakers that are missing from a script's cast are handled on create/update:
+// - reject:  every line's character must exactly match a cast entry
+// - add:     unknown speakers are appended to the cast
+// - resolve: speakers are matched to a cast entry by alias/prefix ("Jax" -> "Engineer Jax"), unresolvable ones are rejected
+export type SpeakerCheckMode = 'reject' | 'add' | 'resolve';
+const SPEAKER_CHECK_MODES: SpeakerCheckMode[] = ['reject', 'add', 'resolve'];
+const DEFAULT_SPEAKER_CHECK_MODE: SpeakerCheckMode = 'resolve';
+
+export const getSpeakerCheckMode = (): SpeakerCheckMode => {
+    const mode = (process.env.SPEAKER_CHECK_MODE || DEFAULT_SPEAKER_CHECK_MODE).toLowerCase() as SpeakerCheckMode;
+    if (!SPEAKER_CHECK_MODES.includes(mode)) {
+        console.warn(`Unknown SPEAKER_CHECK_MODE "${process.env.SPEAKER_CHECK_MODE}", falling back to "${DEFAULT_SPEAKER_CHECK_MODE}"`);
+        return DEFAULT_SPEAKER_CHECK_MODE;
+    }
+    return mode;
+};
+
+// Shared secret for the admin endpoints (sent in the X-Admin-Key header). Admin routes are disabled when unset.
+export const getAdminApiKey = (): string | undefined => process.env.ADMIN_API_KEY || undefined;
+
+// Secret Vercel Cron sends as "Authorization: Bearer <CRON_SECRET>" when calling scheduled admin jobs
+export const getCronSecret = (): string | undefined => process.env.CRON_SECRET || undefined;
+
+// How long trashed scripts are kept before the scheduled purge deletes them for good
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getTrashRetentionDays = (): number => {
+    const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+    return isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+};
+
+// Whether new submissions are public right away ('approved') or wait in the admin review queue ('pending')
+export type ModerationDefaultStatus = 'pending' | 'approved';
+const DEFAULT_MODERATION_STATUS: ModerationDefaultStatus = 'approved';
+
+export const getModerationDefaultStatus = (): ModerationDefaultStatus => {
+    const status = (process.env.MODERATION_DEFAULT_STATUS || DEFAULT_MODERATION_STATUS).toLowerCase();
+    if (status !== 'pending' && status !== 'approved') {
+        console.warn(`Unknown MODERATION_DEFAULT_STATUS "${process.env.MODERATION_DEFAULT_STATUS}", falling back to "${DEFAULT_MODERATION_STATUS}"`);
+        return DEFAULT_MODERATION_STATUS;
+    }
+    return status;
+};
+
+// Optional JSON file configuring the content filter (word lists and regex rules, see README)
+export const getContentFilterConfigPath = (): string | undefined => process.env.CONTENT_FILTER_CONFIG || undefined;
+
+// Number of open reports after which a script is hidden until an admin reviews it (0 disables auto-hiding)
+const DEFAULT_REPORT_HIDE_THRESHOLD = 3;
+
+export const getReportHideThreshold = (): number => {
+    const threshold = parseInt(process.env.REPORT_HIDE_THRESHOLD || '', 10);
+    return isNaN(threshold) || threshold < 0 ? DEFAULT_REPORT_HIDE_THRESHOLD : threshold;
+};
+
+// Which proxies in front of the app are trusted to report the client address (X-Forwarded-For), as Express'
+// "trust proxy" setting: a hop count, true/false, or comma-separated addresses/subnets. Vercel's edge is one hop.
+const DEFAULT_TRUST_PROXY = 1;
+
+export const getTrustProxy = (): number | boolean | string => {
+    const value = (process.env.TRUST_PROXY || '').trim().toLowerCase();
+    if (!value) {
+        return DEFAULT_TRUST_PROXY;
+    }
+    if (/^\d+$/.test(value)) {
+        return parseInt(value, 10);
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    return value;
+};
+
+// Salt mixed into client fingerprints (hashed IPs) so stored hashes can't be matched back to addresses
+export const getClientHashSalt = (): string => process.env.CLIENT_HASH_SALT || '';
+
+// Repeat reads of a script by the same client within this many minutes count as one view
+const DEFAULT_VIEW_DEDUPE_MINUTES = 30;
+
+export const getViewDedupeMinutes = (): number => {
+    const minutes = parseInt(process.env.VIEW_DEDUPE_MINUTES || '', 10);
+    return isNaN(minutes) || minutes < 0 ? DEFAULT_VIEW_DEDUPE_MINUTES : minutes;
+};
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as adminController from './adminController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    scriptView: {
+      deleteMany: vi.fn(),
+    },
+    scriptReport: {
+      groupBy: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+describe('Admin Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: {}, query: {}, body: {} };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getTrash', () => {
+    it('should list trashed scripts with pagination', async () => {
+      const trashed = [{ id: 't1', lines: [], deletedAt: new Date() }];
+      vi.mocked(prisma.$transaction).mockResolvedValue([trashed, 1]);
+
+      await adminController.getTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findMany).toHaveBeenCalledWith({ where: { deletedAt: { not: null } }, orderBy: { deletedAt: 'desc' }, skip: 0, take: 20 });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ data: trashed, pagination: { totalItems: 1, currentPage: 1, totalPages: 1, pageSize: 20 } });
+    });
+
+    it('should call next with AppError(400) for invalid pagination', async () => {
+      mockRequest.query = { page: '0' };
+
+      await adminController.getTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+  });
+
+  describe('restoreFromTrash', () => {
+    it('should clear deletedAt on a trashed script', async () => {
+      mockRequest.params = { id: 't1' };
+      vi.mocked(prisma.scriptSnip.update).mockResolvedValue({ id: 't1', lines: [], deletedAt: null } as any);
+
+      await adminController.restoreFromTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).toHaveBeenCalledWith({ where: { id: 't1', deletedAt: { not: null } }, data: { deletedAt: null } });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should delete scripts trashed before the configured retention period', async () => {
+      vi.stubEnv('TRASH_RETENTION_DAYS', '7');
+      vi.mocked(prisma.scriptSnip.deleteMany).mockResolvedValue({ count: 2 });
+      vi.mocked(prisma.scriptView.deleteMany).mockResolvedValue({ count: 0 });
+      const before = Date.now();
+
+      await adminController.purgeTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { where } = vi.mocked(prisma.scriptSnip.deleteMany).mock.calls[0][0] as any;
+      const expectedCutoff = before - 7 * 24 * 60 * 60 * 1000;
+      expect(Math.abs(where.deletedAt.lt.getTime() - expectedCutoff)).toBeLessThan(1000);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ purged: 2, olderThanDays: 7 }));
+    });
+
+    it('should prune view records older than the longest trending window', async () => {
+      vi.mocked(prisma.scriptSnip.deleteMany).mockResolvedValue({ count: 0 });
+      vi.mocked(prisma.scriptView.deleteMany).mockResolvedValue({ count: 12 });
+      const before = Date.now();
+
+      await adminController.purgeTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { where } = vi.mocked(prisma.scriptView.deleteMany).mock.calls[0][0] as any;
+      const expectedCutoff = before - 30 * 24 * 60 * 60 * 1000;
+      expect(Math.abs(where.createdAt.lt.getTime() - expectedCutoff)).toBeLessThan(1000);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ prunedViews: 12 }));
+    });
+
+    it('should keep views for the whole dedupe window when it is longer', async () => {
+      vi.stubEnv('VIEW_DEDUPE_MINUTES', String(60 * 24 * 45));
+      vi.mocked(prisma.scriptSnip.deleteMany).mockResolvedValue({ count: 0 });
+      vi.mocked(prisma.scriptView.deleteMany).mockResolvedValue({ count: 0 });
+      const before = Date.now();
+
+      await adminController.purgeTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { where } = vi.mocked(prisma.scriptView.deleteMany).mock.calls[0][0] as any;
+      expect(Math.abs(where.createdAt.lt.getTime() - (before - 45 * 24 * 60 * 60 * 1000))).toBeLessThan(1000);
+    });
+
+    it('should call next with AppError(400) for an invalid olderThanDays', async () => {
+      mockRequest.query = { olderThanDays: '-1' };
+
+      await adminController.purgeTrash(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.deleteMany).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+  });
+
+  describe('getModerationQueue', () => {
+    it('should list pending scripts oldest first by default', async () => {
+      const pending = [{ id: 'p1', lines: [], status: 'pending' }];
+      vi.mocked(prisma.$transaction).mockResolvedValue([pending, 1]);
+
+      await adminController.getModerationQueue(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findMany).toHaveBeenCalledWith({ where: { deletedAt: null, status: 'pending' }, orderBy: { createdAt: 'asc' }, skip: 0, take: 20 });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        data: pending,
+        pagination: { totalItems: 1, currentPage: 1, totalPages: 1, pageSize: 20, status: 'pending' },
+      });
+    });
+
+    it('should call next with AppError(400) for an unknown status', async () => {
+      mockRequest.query = { status: 'spam' };
+
+      await adminController.getModerationQueue(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+  });
+
+  describe('approveScript / rejectScript', () => {
+    it('should approve a script and clear any previous rejection reason', async () => {
+      mockRequest.params = { id: 'p1' };
+      vi.mocked(prisma.scriptSnip.update).mockResolvedValue({ id: 'p1', lines: [], status: 'approved' } as any);
+
+      await adminController.approveScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).toHaveBeenCalledWith({
+        where: { id: 'p1', deletedAt: null },
+        data: { status: 'approved', moderationReason: null, moderatedAt: expect.any(Date) },
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject a script with a reason', async () => {
+      mockRequest.params = { id: 'p1' };
+      mockRequest.body = { reason: '  Contains spam links ' };
+      vi.mocked(prisma.scriptSnip.update).mockResolvedValue({ id: 'p1', lines: [], status: 'rejected' } as any);
+
+      await adminController.rejectScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).toHaveBeenCalledWith({
+        where: { id: 'p1', deletedAt: null },
+        data: { status: 'rejected', moderationReason: 'Contains spam links', moderatedAt: expect.any(Date) },
+      });
+    });
+
+    it('should require a reason to reject', async () => {
+      mockRequest.params = { id: 'p1' };
+
+      await adminController.rejectScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+
+  describe('getReportedScripts', () => {
+    it('should list scripts with open reports, most reported first, with a per-reason breakdown', async () => {
+      const latest = new Date();
+      vi.mocked(prisma.scriptReport.groupBy)
+        .mockResolvedValueOnce([{ scriptId: 's2', _count: { _all: 3 }, _max: { createdAt: latest } }] as any)
+        .mockResolvedValueOnce([{ scriptId: 's2' }, { scriptId: 's1' }] as any)
+        .mockResolvedValueOnce([
+          { scriptId: 's2', reason: 'spam', _count: { _all: 2 } },
+          { scriptId: 's2', reason: 'offensive', _count: { _all: 1 } },
+        ] as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([{ id: 's2', lines: [], hiddenAt: latest }] as any);
+      mockRequest.query = { limit: '1' };
+
+      await adminController.getReportedScripts(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(vi.mocked(prisma.scriptReport.groupBy).mock.calls[0][0]).toEqual(expect.objectContaining({
+        where: { resolvedAt: null, script: { deletedAt: null } },
+        skip: 0,
+        take: 1,
+      }));
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        data: [{ script: { id: 's2', lines: [], hiddenAt: latest }, reportCount: 3, reasons: { spam: 2, offensive: 1 }, latestReportAt: latest }],
+        pagination: { totalItems: 2, currentPage: 1, totalPages: 2, pageSize: 1 },
+      });
+    });
+  });
+
+  describe('resolveScriptReports', () => {
+    it('should close open reports and un-hide the script', async () => {
+      mockRequest.params = { id: 's2' };
+      vi.mocked(prisma.$transaction).mockResolvedValue([{ count: 3 }, { id: 's2', lines: [], hiddenAt: null }]);
+
+      await adminController.resolveScriptReports(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.updateMany).toHaveBeenCalledWith({ where: { scriptId: 's2', resolvedAt: null }, data: { resolvedAt: expect.any(Date) } });
+      expect(prisma.scriptSnip.update).toHaveBeenCalledWith({ where: { id: 's2' }, data: { hiddenAt: null } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ resolved: 3, script: { id: 's2', lines: [], hiddenAt: null } });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { serializeScript, serializeScripts } from '../utils/scriptSerializer';
+import { getTrashRetentionDays } from '../config';
+import { moderationQueueSchema, rejectScriptSchema } from '../schemas/moderationSchema';
+import { liveScriptWhere } from '../utils/visibility';
+import { pruneViews } from '../utils/viewTracking';
+
+// Parse page/limit query parameters the same way the public list endpoint does
+const parsePagination = (req: Request) => {
+    const page = parseInt(req.query.page as string || '1', 10);
+    const limit = parseInt(req.query.limit as string || '20', 10);
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1) {
+        throw new AppError('Invalid pagination parameters. Page and limit must be positive integers.', 400);
+    }
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+// --- TRASH: LIST ---
+export const getTrash = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page, limit, skip } = parsePagination(req);
+        const where = { deletedAt: { not: null } };
+
+        const [scripts, totalItems] = await prisma.$transaction([
+            prisma.scriptSnip.findMany({ where, orderBy: { deletedAt: 'desc' }, skip, take: limit }), // Most recently trashed first
+            prisma.scriptSnip.count({ where }),
+        ]);
+
+        res.status(200).json({
+            data: serializeScripts(scripts),
+            pagination: {
+                totalItems,
+                currentPage: page,
+                totalPages: Math.ceil(totalItems / limit),
+                pageSize: limit,
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- TRASH: RESTORE ---
+export const restoreFromTrash = async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    try {
+        // Only trashed scripts match, anything else is reported as not found (P2025 -> 404)
+        const restoredScript = await prisma.scriptSnip.update({
+            where: { id: String(id), deletedAt: { not: null } },
+            data: { deletedAt: null },
+        });
+        res.status(200).json(serializeScript(restoredScript));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- TRASH: PURGE ---
+// Permanently deletes scripts that have been in the trash longer than ?olderThanDays (default: TRASH_RETENTION_DAYS).
+// Also runs on a schedule through Vercel Cron (see vercel.json), so it prunes view records no longer needed too.
+export const purgeTrash = async (req: Request, res: Response, next: NextFunction) => {
+    let olderThanDays = getTrashRetentionDays();
+    if (req.query.olderThanDays !== undefined) {
+        olderThanDays = parseInt(req.query.olderThanDays as string, 10);
+        if (isNaN(olderThanDays) || olderThanDays < 0) {
+            return next(new AppError('Invalid olderThanDays parameter. Must be a non-negative integer.', 400));
+        }
+    }
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+
+    try {
+        // Revisions (and other dependent rows) are removed by ON DELETE CASCADE
+        const { count } = await prisma.scriptSnip.deleteMany({
+            where: { deletedAt: { not: null, lt: cutoff } },
+        });
+        console.log(`Purged ${count} script(s) trashed before ${cutoff.toISOString()}`);
+        const prunedViews = await pruneViews();
+        console.log(`Pruned ${prunedViews.count} view(s) recorded before ${prunedViews.cutoff.toISOString()}`);
+        res.status(200).json({ purged: count, olderThanDays, cutoff, prunedViews: prunedViews.count });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- MODERATION: REVIEW QUEUE ---
+// GET /api/admin/moderation?status=pending|approved|rejected (default: pending)
+export const getModerationQueue = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page, limit, skip } = parsePagination(req);
+        const parsedStatus = moderationQueueSchema.safeParse(req.query.status);
+        if (!parsedStatus.success) {
+            return next(new AppError('Invalid status parameter. Use pending, approved or rejected.', 400));
+        }
+        const status = parsedStatus.data;
+        const where = { ...liveScriptWhere, status };
+
+        const [scripts, totalItems] = await prisma.$transaction([
+            prisma.scriptSnip.findMany({ where, orderBy: { createdAt: 'asc' }, skip, take: limit }), // Oldest submissions first
+            prisma.scriptSnip.count({ where }),
+        ]);
+
+        res.status(200).json({
+            data: serializeScripts(scripts),
+            pagination: {
+                totalItems,
+                currentPage: page,
+                totalPages: Math.ceil(totalItems / limit),
+                pageSize: limit,
+                status,
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- MODERATION: APPROVE ---
+export const approveScript = async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    try {
+        // Trashed or unknown scripts are reported as not found (P2025 -> 404)
+        const approvedScript = await prisma.scriptSnip.update({
+            where: { id: String(id), deletedAt: null },
+            data: { status: 'approved', moderationReason: null, moderatedAt: new Date() },
+        });
+        res.status(200).json(serializeScript(approvedScript));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- MODERATION: REJECT ---
+// Expects { reason } in the body
+export const rejectScript = async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    try {
+        const { reason } = rejectScriptSchema.parse(req.body);
+        const rejectedScript = await prisma.scriptSnip.update({
+            where: { id: String(id), deletedAt: null },
+            data: { status: 'rejected', moderationReason: reason, moderatedAt: new Date() },
+        });
+        res.status(200).json(serializeScript(rejectedScript));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REPORTS: MOST REPORTED SCRIPTS ---
+// Scripts with open (unresolved) reports, most reported first
+export const getReportedScripts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page, limit, skip } = parsePagination(req);
+        const where = { resolvedAt: null, script: { deletedAt: null } };
+
+        const [groups, allGroups] = await Promise.all([
+            prisma.scriptReport.groupBy({
+                by: ['scriptId'],
+                where,
+                _count: { _all: true },
+                _max: { createdAt: true },
+                orderBy: [{ _count: { scriptId: 'desc' } }, { _max: { createdAt: 'desc' } }],
+                skip,
+                take: limit,
+            }),
+            prisma.scriptReport.groupBy({ by: ['scriptId'], where }),
+        ]);
+
+        const scriptIds = groups.map(group => group.scriptId);
+        const [scripts, reasonGroups] = await Promise.all([
+            prisma.scriptSnip.findMany({ where: { id: { in: scriptIds } } }),
+            prisma.scriptReport.groupBy({
+                by: ['scriptId', 'reason'],
+                where: { ...where, scriptId: { in: scriptIds } },
+                _count: { _all: true },
+            }),
+        ]);
+        const scriptsById = new Map(scripts.map(script => [script.id, script]));
+
+        const data = groups.map(group => ({
+            script: serializeScript(scriptsById.get(group.scriptId)!),
+            reportCount: group._count._all,
+            reasons: Object.fromEntries(reasonGroups
+                .filter(reasonGroup => reasonGroup.scriptId === group.scriptId)
+                .map(reasonGroup => [reasonGroup.reason, reasonGroup._count._all])),
+            latestReportAt: group._max.createdAt,
+        }));
+
+        const totalItems = allGroups.length;
+        res.status(200).json({
+            data,
+            pagination: {
+                totalItems,
+                currentPage: page,
+                totalPages: Math.ceil(totalItems / limit),
+                pageSize: limit,
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REPORTS: LIST FOR ONE SCRIPT ---
+export const getScriptReports = async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    try {
+        const reports = await prisma.scriptReport.findMany({
+            where: { scriptId: String(id) },
+            orderBy: { createdAt: 'desc' },
+            omit: { reporterHash: true },
+        });
+        res.status(200).json(reports);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REPORTS: RESOLVE ---
+// Marks the script's open reports as reviewed and un-hides it.
+// To take the script down instead, reject it (moderation) or move it to the trash.
+export const resolveScriptReports = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const [{ count }, script] = await prisma.$transaction([
+            prisma.scriptReport.updateMany({ where: { scriptId: id, resolvedAt: null }, data: { resolvedAt: new Date() } }),
+            prisma.scriptSnip.update({ where: { id }, data: { hiddenAt: null } }), // Unknown scripts -> P2025 -> 404
+        ]);
+        res.status(200).json({ resolved: count, script: serializeScript(script) });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as characterController from './characterController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    character: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    scriptCharacter: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const character = (extra: any = {}) => ({
+  id: 'char-eva', name: 'Captain Eva Rostova', aliases: ['Eva'], bio: 'Commands the Meridian.',
+  editTokenHash: 'hash', createdAt: new Date(), updatedAt: new Date(),
+  ...extra,
+});
+
+describe('Character Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 'char-eva' }, query: {}, body: {} };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+  });
+
+  describe('createCharacter', () => {
+    it('should store the hashed edit token and return the token once', async () => {
+      mockRequest.body = { name: ' Captain Eva Rostova ', aliases: ['Eva', 'Eva '] };
+      vi.mocked(prisma.character.create).mockImplementation((async ({ data }: any) => character(data)) as any);
+
+      await characterController.createCharacter(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.character.create).mock.calls[0][0] as any;
+      expect(data.name).toBe('Captain Eva Rostova');
+      expect(data.aliases).toEqual(['Eva']);
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(data.editTokenHash).toBe(hashToken(payload.editToken));
+      expect(payload).not.toHaveProperty('editTokenHash');
+    });
+
+    it('should reject an empty name', async () => {
+      mockRequest.body = { name: '  ' };
+
+      await characterController.createCharacter(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.character.create).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+
+  describe('getCharacters', () => {
+    it('should search names and aliases and count visible appearances', async () => {
+      mockRequest.query = { search: 'Eva' };
+      vi.mocked(prisma.$transaction).mockResolvedValue([[{ ...character(), _count: { scriptLinks: 2 } }], 1] as any);
+
+      await characterController.getCharacters(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const query = vi.mocked(prisma.character.findMany).mock.calls[0][0] as any;
+      expect(query.where).toEqual({ OR: [{ name: { contains: 'Eva', mode: 'insensitive' } }, { aliases: { has: 'Eva' } }] });
+      expect(query.include._count.select.scriptLinks.where).toEqual({ script: visibleScriptWhere });
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.data[0]).toMatchObject({ name: 'Captain Eva Rostova', scriptCount: 2 });
+      expect(payload.data[0]).not.toHaveProperty('editTokenHash');
+      expect(payload.pagination).toEqual({ totalItems: 1, currentPage: 1, totalPages: 1, pageSize: 20 });
+    });
+  });
+
+  describe('getCharacter', () => {
+    it('should list each visible script with the lines the linked cast entry speaks', async () => {
+      vi.mocked(prisma.character.findUnique).mockResolvedValue(character() as any);
+      const createdAt = new Date();
+      vi.mocked(prisma.scriptCharacter.findMany).mockResolvedValue([{
+        castName: 'Captain Eva',
+        script: {
+          id: 's1', title: 'Bridge Crisis', createdAt,
+          lines: [
+            { type: 'scene_heading', text: 'INT. BRIDGE - NIGHT' },
+            { character: 'Captain Eva', dialogue: 'Report!' },
+            { type: 'dialogue', character: 'Jax', dialogue: 'Readings are off the charts.' },
+            { type: 'parenthetical', character: 'Captain Eva', text: 'quietly' },
+          ],
+        },
+      }] as any);
+
+      await characterController.getCharacter(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(vi.mocked(prisma.scriptCharacter.findMany).mock.calls[0][0]).toMatchObject({
+        where: { characterId: 'char-eva', script: visibleScriptWhere },
+      });
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.appearances).toEqual([{
+        script: { id: 's1', title: 'Bridge Crisis', createdAt },
+        castName: 'Captain Eva',
+        lines: [
+          { index: 1, type: 'dialogue', character: 'Captain Eva', dialogue: 'Report!' },
+          { index: 3, type: 'parenthetical', character: 'Captain Eva', text: 'quietly' },
+        ],
+      }]);
+    });
+
+    it('should return 404 for an unknown character', async () => {
+      vi.mocked(prisma.character.findUnique).mockResolvedValue(null);
+
+      await characterController.getCharacter(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+      expect(prisma.scriptCharacter.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCharacter', () => {
+    it('should delete the character and respond 204', async () => {
+      await characterController.deleteCharacter(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.character.delete).toHaveBeenCalledWith({ where: { id: 'char-eva' } });
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+  });
+});
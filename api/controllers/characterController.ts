@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import { Character, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { createCharacterSchema, updateCharacterSchema } from '../schemas/characterSchema';
+import { ScriptLine } from '../schemas/scriptSchema';
+import { getLineCharacter, normalizeLines } from '../utils/scriptLines';
+import { generateToken, hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Public shape of a registry character (never includes the token hash)
+const characterView = (character: Character) => ({
+    id: character.id,
+    name: character.name,
+    aliases: character.aliases,
+    bio: character.bio,
+    createdAt: character.createdAt,
+    updatedAt: character.updatedAt,
+});
+
+// Only links to scripts the public can see count as appearances
+const visibleLinks = { script: visibleScriptWhere };
+
+// --- CREATE ---
+export const createCharacter = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { name, aliases, bio } = createCharacterSchema.parse(req.body);
+
+        // The edit token is only stored hashed, this response is the one time the creator sees it
+        // (a name that is already taken is reported by the unique constraint, P2002 -> 409)
+        const editToken = generateToken();
+        const character = await prisma.character.create({
+            data: { name, aliases, bio, editTokenHash: hashToken(editToken) },
+        });
+
+        res.status(201).json({ ...characterView(character), editToken });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- LIST ---
+// GET /api/characters?search=...&page=N&limit=N - Registry characters by name, with how many scripts they appear in
+export const getCharacters = async (req: Request, res: Response, next: NextFunction) => {
+    const page = parseInt(req.query.page as string || '1', 10);
+    const limit = parseInt(req.query.limit as string || '20', 10);
+    const search = req.query.search ? String(req.query.search).trim() : undefined;
+
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1) {
+        return next(new AppError('Invalid pagination parameters. Page and limit must be positive integers.', 400));
+    }
+
+    try {
+        const where: Prisma.CharacterWhereInput = search
+            ? { OR: [{ name: { contains: search, mode: 'insensitive' } }, { aliases: { has: search } }] }
+            : {};
+        const [characters, totalItems] = await prisma.$transaction([
+            prisma.character.findMany({
+                where,
+                orderBy: { name: 'asc' },
+                skip: (page - 1) * limit,
+                take: limit,
+                include: { _count: { select: { scriptLinks: { where: visibleLinks } } } },
+            }),
+            prisma.character.count({ where }),
+        ]);
+
+        res.status(200).json({
+            data: characters.map(character => ({ ...characterView(character), scriptCount: character._count.scriptLinks })),
+            pagination: {
+                totalItems,
+                currentPage: page,
+                totalPages: Math.ceil(totalItems / limit),
+                pageSize: limit,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- READ (character page) ---
+// GET /api/characters/:id - The character with every visible script it is linked to and the lines it speaks there
+export const getCharacter = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const character = await prisma.character.findUnique({ where: { id } });
+        if (!character) {
+            return next(new AppError('Character not found', 404));
+        }
+
+        const links = await prisma.scriptCharacter.findMany({
+            where: { characterId: id, ...visibleLinks },
+            orderBy: { script: { createdAt: 'desc' } },
+            include: { script: { select: { id: true, title: true, createdAt: true, lines: true } } },
+        });
+
+        const appearances = links.map(({ castName, script }) => ({
+            script: { id: script.id, title: script.title, createdAt: script.createdAt },
+            castName,
+            // Dialogue and parentheticals attributed to the linked cast entry, with their position in the script
+            lines: (normalizeLines(script.lines) as ScriptLine[])
+                .map((line, index) => ({ index, ...line }))
+                .filter(line => getLineCharacter(line) === castName),
+        }));
+
+        res.status(200).json({ ...characterView(character), appearances });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- UPDATE ---
+export const updateCharacter = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = updateCharacterSchema.parse(req.body);
+        // A missing character is reported by the update (P2025 -> 404)
+        const character = await prisma.character.update({
+            where: { id: String(req.params.id) },
+            data: validatedData,
+        });
+        res.status(200).json(characterView(character));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- DELETE ---
+export const deleteCharacter = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // Links are removed by ON DELETE CASCADE, the scripts themselves are untouched
+        await prisma.character.delete({ where: { id: String(req.params.id) } });
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
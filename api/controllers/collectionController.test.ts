@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as collectionController from './collectionController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    collection: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+const collection = (scriptIds: string[], extra: any = {}) => ({
+  id: 'c1', name: 'Favorites', description: null, shareSlug: 'share123', editTokenHash: 'hash',
+  createdAt: new Date(), updatedAt: new Date(),
+  items: scriptIds.map((scriptId, position) => ({ scriptId, position })),
+  ...extra,
+});
+
+const script = (id: string) => ({ id, title: id, characters: ['A'], lines: [] });
+
+describe('Collection Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 'c1' }, query: {}, body: {} };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+  });
+
+  describe('createCollection', () => {
+    it('should keep visible scripts in the requested order and return the edit token once', async () => {
+      mockRequest.body = { name: ' Favorites ', scriptIds: ['s2', 'gone', 's1', 's2'] };
+      vi.mocked(prisma.scriptSnip.findMany)
+        .mockResolvedValueOnce([{ id: 's1' }, { id: 's2' }] as any)
+        .mockResolvedValueOnce([script('s1'), script('s2')] as any);
+      vi.mocked(prisma.collection.create).mockImplementation((async ({ data }: any) =>
+        collection(data.items.create.map((item: any) => item.scriptId), { editTokenHash: data.editTokenHash })) as any);
+
+      await collectionController.createCollection(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.collection.create).mock.calls[0][0] as any;
+      expect(data.name).toBe('Favorites');
+      expect(data.items.create).toEqual([{ scriptId: 's2', position: 0 }, { scriptId: 's1', position: 1 }]);
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      const body = vi.mocked(mockResponse.json!).mock.calls[0][0];
+      expect(body.scripts.map((entry: any) => entry.id)).toEqual(['s2', 's1']);
+      expect(body.sharePath).toBe('/api/collections/shared/share123');
+      expect(data.editTokenHash).toBe(hashToken(body.editToken));
+      expect(body).not.toHaveProperty('editTokenHash');
+    });
+  });
+
+  describe('getSharedCollection', () => {
+    it('should return a read-only view and leave out scripts that are no longer visible', async () => {
+      mockRequest.params = { slug: 'share123' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1', 'trashed', 's2']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([script('s2'), script('s1')] as any);
+
+      await collectionController.getSharedCollection(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findMany).toHaveBeenCalledWith({ where: { id: { in: ['s1', 'trashed', 's2'] }, ...visibleScriptWhere } });
+      const body = vi.mocked(mockResponse.json!).mock.calls[0][0];
+      expect(body.scripts.map((entry: any) => entry.id)).toEqual(['s1', 's2']);
+      expect(body).not.toHaveProperty('id');
+      expect(body).not.toHaveProperty('editTokenHash');
+    });
+
+    it('should call next with AppError(404) for an unknown slug', async () => {
+      mockRequest.params = { slug: 'nope' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(null);
+
+      await collectionController.getSharedCollection(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+  });
+
+  describe('addCollectionItem', () => {
+    it('should append a visible script after the last item', async () => {
+      mockRequest.body = { scriptId: 's3' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1', 's2']) as any);
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ id: 's3' } as any);
+      vi.mocked(prisma.collection.update).mockResolvedValue(collection(['s1', 's2', 's3']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+
+      await collectionController.addCollectionItem(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.collection.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'c1' },
+        data: { items: { create: { scriptId: 's3', position: 2 } } },
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should call next with AppError(409) for a script already in the collection', async () => {
+      mockRequest.body = { scriptId: 's1' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1']) as any);
+
+      await collectionController.addCollectionItem(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.collection.update).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(409);
+    });
+
+    it('should call next with AppError(404) for a script that is not visible', async () => {
+      mockRequest.body = { scriptId: 'pending' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection([]) as any);
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await collectionController.addCollectionItem(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+  });
+
+  describe('reorderCollectionItems', () => {
+    it('should move listed scripts to the front and keep the rest in order', async () => {
+      mockRequest.body = { scriptIds: ['s3', 's1'] };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1', 's2', 's3', 's4']) as any);
+      vi.mocked(prisma.collection.update).mockResolvedValue(collection(['s3', 's1', 's2', 's4']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+
+      await collectionController.reorderCollectionItems(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.collection.update).mock.calls[0][0] as any;
+      expect(data.items.updateMany.map((entry: any) => [entry.where.scriptId, entry.data.position]))
+        .toEqual([['s3', 0], ['s1', 1], ['s2', 2], ['s4', 3]]);
+    });
+
+    it('should call next with AppError(400) for scripts not in the collection', async () => {
+      mockRequest.body = { scriptIds: ['s9'] };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1']) as any);
+
+      await collectionController.reorderCollectionItems(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.collection.update).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+  });
+
+  describe('removeCollectionItem', () => {
+    it('should remove the script from the collection', async () => {
+      mockRequest.params = { id: 'c1', scriptId: 's1' };
+      vi.mocked(prisma.collection.findUnique).mockResolvedValue(collection(['s1', 's2']) as any);
+      vi.mocked(prisma.collection.update).mockResolvedValue(collection(['s2']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+
+      await collectionController.removeCollectionItem(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.collection.update).toHaveBeenCalledWith(expect.objectContaining({ data: { items: { deleteMany: { scriptId: 's1' } } } }));
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from 'express';
+import { Collection } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import {
+    createCollectionSchema,
+    updateCollectionSchema,
+    addCollectionItemSchema,
+    reorderCollectionSchema,
+    MAX_COLLECTION_ITEMS,
+} from '../schemas/collectionSchema';
+import { serializeScripts } from '../utils/scriptSerializer';
+import { visibleScriptWhere } from '../utils/visibility';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Items are always loaded in collection order
+const withItems = {
+    items: { orderBy: { position: 'asc' as const }, select: { scriptId: true, position: true } },
+};
+
+type CollectionWithItems = Collection & { items: { scriptId: string; position: number }[] };
+
+const sharePath = (shareSlug: string) => `/api/collections/shared/${shareSlug}`;
+
+const findCollection = async (id: string): Promise<CollectionWithItems> => {
+    const collection = await prisma.collection.findUnique({ where: { id }, include: withItems });
+    if (!collection) {
+        throw new AppError('Collection not found', 404);
+    }
+    return collection;
+};
+
+// Load the collection's scripts in order, the same way getScriptsByIds does.
+// Scripts that were deleted, hidden or are awaiting moderation silently drop out.
+const hydrateScripts = async (collection: CollectionWithItems) => {
+    const scripts = await prisma.scriptSnip.findMany({
+        where: { id: { in: collection.items.map(item => item.scriptId) }, ...visibleScriptWhere },
+    });
+    const scriptsById = new Map(scripts.map(script => [script.id, script]));
+    return serializeScripts(collection.items
+        .filter(item => scriptsById.has(item.scriptId))
+        .map(item => scriptsById.get(item.scriptId)!));
+};
+
+// Response for the collection's owner (never includes the token hash)
+const ownerView = async (collection: CollectionWithItems) => ({
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    shareSlug: collection.shareSlug,
+    sharePath: sharePath(collection.shareSlug),
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+    scripts: await hydrateScripts(collection),
+});
+
+// --- CREATE ---
+export const createCollection = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { name, description, scriptIds = [] } = createCollectionSchema.parse(req.body);
+
+        // Keep the requested order, dropping duplicates and scripts that can't be shown
+        const uniqueIds = Array.from(new Set(scriptIds));
+        const visibleScripts = uniqueIds.length > 0
+            ? await prisma.scriptSnip.findMany({ where: { id: { in: uniqueIds }, ...visibleScriptWhere }, select: { id: true } })
+            : [];
+        const visibleIds = new Set(visibleScripts.map(script => script.id));
+
+        // The edit token is only stored hashed, this response is the one time the creator sees it
+        const editToken = generateToken();
+        const collection = await prisma.collection.create({
+            data: {
+                name,
+                description,
+                shareSlug: generateToken(9),
+                editTokenHash: hashToken(editToken),
+                items: {
+                    create: uniqueIds.filter(id => visibleIds.has(id)).map((scriptId, position) => ({ scriptId, position })),
+                },
+            },
+            include: withItems,
+        });
+
+        res.status(201).json({ ...(await ownerView(collection)), editToken });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- READ (owner) ---
+export const getCollection = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const collection = await findCollection(String(req.params.id));
+        res.status(200).json(await ownerView(collection));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- READ (public share link) ---
+export const getSharedCollection = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const collection = await prisma.collection.findUnique({
+            where: { shareSlug: String(req.params.slug) },
+            include: withItems,
+        });
+        if (!collection) {
+            return next(new AppError('Collection not found', 404));
+        }
+        // Read-only view: no ID, so nothing here can be used to manage the collection
+        res.status(200).json({
+            name: collection.name,
+            description: collection.description,
+            createdAt: collection.createdAt,
+            updatedAt: collection.updatedAt,
+            scripts: await hydrateScripts(collection),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- UPDATE ---
+export const updateCollection = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = updateCollectionSchema.parse(req.body);
+        // A missing collection is reported by the update (P2025 -> 404)
+        const collection = await prisma.collection.update({
+            where: { id: String(req.params.id) },
+            data: validatedData,
+            include: withItems,
+        });
+        res.status(200).json(await ownerView(collection));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- DELETE ---
+export const deleteCollection = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // Items are removed by ON DELETE CASCADE, the scripts themselves are untouched
+        await prisma.collection.delete({ where: { id: String(req.params.id) } });
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- ADD A SCRIPT (appended to the end) ---
+export const addCollectionItem = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { scriptId } = addCollectionItemSchema.parse(req.body);
+        const collection = await findCollection(String(req.params.id));
+
+        if (collection.items.some(item => item.scriptId === scriptId)) {
+            return next(new AppError('Script is already in this collection', 409));
+        }
+        if (collection.items.length >= MAX_COLLECTION_ITEMS) {
+            return next(new AppError(`A collection can hold at most ${MAX_COLLECTION_ITEMS} scripts`, 400));
+        }
+        const script = await prisma.scriptSnip.findFirst({ where: { id: scriptId, ...visibleScriptWhere }, select: { id: true } });
+        if (!script) {
+            return next(new AppError('Script not found', 404));
+        }
+
+        const lastPosition = collection.items.length > 0 ? collection.items[collection.items.length - 1].position : -1;
+        const updated = await prisma.collection.update({
+            where: { id: collection.id },
+            data: { items: { create: { scriptId, position: lastPosition + 1 } } },
+            include: withItems,
+        });
+        res.status(201).json(await ownerView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REMOVE A SCRIPT ---
+export const removeCollectionItem = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const scriptId = String(req.params.scriptId);
+        const collection = await findCollection(String(req.params.id));
+        if (!collection.items.some(item => item.scriptId === scriptId)) {
+            return next(new AppError('Script is not in this collection', 404));
+        }
+
+        const updated = await prisma.collection.update({
+            where: { id: collection.id },
+            data: { items: { deleteMany: { scriptId } } },
+            include: withItems,
+        });
+        res.status(200).json(await ownerView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REORDER ---
+// Expects { scriptIds: [...] }: the listed scripts move to the front in that order,
+// scripts that aren't listed (e.g. currently hidden ones) keep their relative order after them
+export const reorderCollectionItems = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { scriptIds } = reorderCollectionSchema.parse(req.body);
+        const collection = await findCollection(String(req.params.id));
+
+        const currentIds = new Set(collection.items.map(item => item.scriptId));
+        const unknownIds = scriptIds.filter(id => !currentIds.has(id));
+        if (unknownIds.length > 0) {
+            return next(new AppError(`Scripts not in this collection: ${unknownIds.join(', ')}`, 400));
+        }
+        if (new Set(scriptIds).size !== scriptIds.length) {
+            return next(new AppError('Each script may only be listed once', 400));
+        }
+
+        const listed = new Set(scriptIds);
+        const newOrder = [...scriptIds, ...collection.items.map(item => item.scriptId).filter(id => !listed.has(id))];
+        const updated = await prisma.collection.update({
+            where: { id: collection.id },
+            data: {
+                items: {
+                    updateMany: newOrder.map((scriptId, position) => ({ where: { scriptId }, data: { position } })),
+                },
+            },
+            include: withItems,
+        });
+        res.status(200).json(await ownerView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as commentController from './commentController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+import { encodeCursor } from '../utils/cursor';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+    },
+    scriptComment: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const makeComment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'c1',
+  scriptId: 's1',
+  parentId: null,
+  displayName: 'Reader',
+  body: 'Loved the ending',
+  deleteTokenHash: hashToken('secret'),
+  deletedAt: null,
+  createdAt: new Date('2025-05-19T10:00:00Z'),
+  ...overrides,
+});
+
+describe('Comment Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ id: 's1' } as any);
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(prisma)) as any);
+  });
+
+  describe('getScriptComments', () => {
+    it('should return top-level comments with replies and a cursor for the next page', async () => {
+      mockRequest.query = { limit: '1' };
+      const reply = makeComment({ id: 'c3', parentId: 'c1', body: 'Same!' });
+      vi.mocked(prisma.scriptComment.findMany).mockResolvedValue([
+        { ...makeComment(), replies: [reply] },
+        { ...makeComment({ id: 'c2' }), replies: [] },
+      ] as any);
+
+      await commentController.getScriptComments(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findFirst).toHaveBeenCalledWith({ where: { id: 's1', ...visibleScriptWhere }, select: { id: true } });
+      const query = vi.mocked(prisma.scriptComment.findMany).mock.calls[0][0] as any;
+      expect(query.where).toEqual({ scriptId: 's1', parentId: null });
+      expect(query.take).toBe(2);
+
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.data).toHaveLength(1);
+      expect(payload.data[0]).not.toHaveProperty('deleteTokenHash');
+      expect(payload.data[0].replies).toEqual([
+        { id: 'c3', parentId: 'c1', displayName: 'Reader', body: 'Same!', deleted: false, createdAt: reply.createdAt },
+      ]);
+      expect(payload.pagination).toEqual({
+        pageSize: 1,
+        nextCursor: encodeCursor({ createdAt: '2025-05-19T10:00:00.000Z', id: 'c1' }),
+      });
+    });
+
+    it('should continue after the cursor position', async () => {
+      mockRequest.query = { cursor: encodeCursor({ createdAt: '2025-05-19T10:00:00.000Z', id: 'c1' }) };
+      vi.mocked(prisma.scriptComment.findMany).mockResolvedValue([]);
+
+      await commentController.getScriptComments(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const query = vi.mocked(prisma.scriptComment.findMany).mock.calls[0][0] as any;
+      const after = new Date('2025-05-19T10:00:00.000Z');
+      expect(query.where.OR).toEqual([
+        { createdAt: { lt: after } },
+        { createdAt: after, id: { lt: 'c1' } },
+      ]);
+      expect(vi.mocked(mockResponse.json!).mock.calls[0][0]).toEqual({ data: [], pagination: { pageSize: 20, nextCursor: null } });
+    });
+
+    it('should blank out deleted comments that are kept for their replies', async () => {
+      vi.mocked(prisma.scriptComment.findMany).mockResolvedValue([
+        { ...makeComment({ deletedAt: new Date() }), replies: [] },
+      ] as any);
+
+      await commentController.getScriptComments(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.data[0]).toMatchObject({ displayName: null, body: null, deleted: true });
+    });
+
+    it('should reject a malformed cursor with 400', async () => {
+      mockRequest.query = { cursor: 'not-a-cursor' };
+
+      await commentController.getScriptComments(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const error = vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError;
+      expect(error.statusCode).toBe(400);
+      expect(prisma.scriptComment.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a script that is not publicly visible', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await commentController.getScriptComments(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    });
+  });
+
+  describe('createComment', () => {
+    it('should store the comment with a hashed delete token and return the token once', async () => {
+      mockRequest.body = { body: '  Loved the ending  ' };
+      vi.mocked(prisma.scriptComment.create).mockImplementation((async ({ data }: any) => makeComment(data)) as any);
+
+      await commentController.createComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const data = (vi.mocked(prisma.scriptComment.create).mock.calls[0][0] as any).data;
+      expect(data).toMatchObject({ scriptId: 's1', parentId: null, displayName: 'Anonymous', body: 'Loved the ending' });
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(data.deleteTokenHash).toBe(hashToken(payload.deleteToken));
+      expect(payload).not.toHaveProperty('deleteTokenHash');
+    });
+
+    it('should reject an empty body', async () => {
+      mockRequest.body = { body: '   ' };
+
+      await commentController.createComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptComment.create).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it('should not allow replies to replies', async () => {
+      mockRequest.body = { body: 'Me too', parentId: 'c3' };
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue({ parentId: 'c1', deletedAt: null } as any);
+
+      await commentController.createComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptComment.findFirst).toHaveBeenCalledWith({
+        where: { id: 'c3', scriptId: 's1' },
+        select: { parentId: true, deletedAt: true },
+      });
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(400);
+      expect(prisma.scriptComment.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the parent comment is not on this script', async () => {
+      mockRequest.body = { body: 'Me too', parentId: 'elsewhere' };
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue(null);
+
+      await commentController.createComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    });
+  });
+
+  describe('deleteComment', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 's1', commentId: 'c1' };
+    });
+
+    it('should remove a comment without replies when the delete token matches', async () => {
+      vi.mocked(mockRequest.get as any).mockImplementation((name: string) => name === 'x-edit-token' ? 'secret' : undefined);
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue({ ...makeComment(), _count: { replies: 0 } } as any);
+
+      await commentController.deleteComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptComment.delete).toHaveBeenCalledWith({ where: { id: 'c1' } });
+      expect(prisma.scriptComment.deleteMany).not.toHaveBeenCalled(); // Top-level comments have no parent to tidy up
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should remove a blanked-out parent along with its last reply', async () => {
+      vi.mocked(mockRequest.get as any).mockImplementation((name: string) => name === 'x-edit-token' ? 'secret' : undefined);
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue({ ...makeComment({ id: 'c2', parentId: 'c1' }), _count: { replies: 0 } } as any);
+      mockRequest.params = { id: 's1', commentId: 'c2' };
+
+      await commentController.deleteComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptComment.delete).toHaveBeenCalledWith({ where: { id: 'c2' } });
+      expect(prisma.scriptComment.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'c1', deletedAt: { not: null }, replies: { none: {} } },
+      });
+      expect(vi.mocked(prisma.scriptComment.delete).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(prisma.scriptComment.deleteMany).mock.invocationCallOrder[0]);
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should blank out a comment that has replies', async () => {
+      vi.mocked(mockRequest.get as any).mockImplementation((name: string) => name === 'x-edit-token' ? 'secret' : undefined);
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue({ ...makeComment(), _count: { replies: 2 } } as any);
+
+      await commentController.deleteComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptComment.delete).not.toHaveBeenCalled();
+      expect(prisma.scriptComment.update).toHaveBeenCalledWith({ where: { id: 'c1' }, data: { deletedAt: expect.any(Date) } });
+    });
+
+    it('should return 403 without the right token', async () => {
+      vi.mocked(mockRequest.get as any).mockImplementation((name: string) => name === 'x-edit-token' ? 'wrong' : undefined);
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue({ ...makeComment(), _count: { replies: 0 } } as any);
+
+      await commentController.deleteComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(403);
+      expect(prisma.scriptComment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown comment', async () => {
+      vi.mocked(prisma.scriptComment.findFirst).mockResolvedValue(null);
+
+      await commentController.deleteComment(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, ScriptComment } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { canManageScript } from '../middleware/editAuth';
+import { createCommentSchema } from '../schemas/commentSchema';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { generateToken, hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+const MAX_COMMENTS_PAGE_SIZE = 50;
+const DEFAULT_DISPLAY_NAME = 'Anonymous';
+
+type CommentCursor = { createdAt: string; id: string };
+
+// Comments can only be read or left on scripts the public can see
+const ensureScriptVisible = async (id: string) => {
+    const script = await prisma.scriptSnip.findFirst({ where: { id, ...visibleScriptWhere }, select: { id: true } });
+    if (!script) {
+        throw new AppError('Script not found', 404);
+    }
+};
+
+// Public shape of a comment: never includes the token hash, and blanked-out comments lose their author and text
+const serializeComment = (comment: ScriptComment) => ({
+    id: comment.id,
+    parentId: comment.parentId,
+    displayName: comment.deletedAt ? null : comment.displayName,
+    body: comment.deletedAt ? null : comment.body,
+    deleted: comment.deletedAt !== null,
+    createdAt: comment.createdAt,
+});
+
+// Top-level comments newer-first are keyed on (createdAt, id), so the cursor marks the last comment already seen
+const parseCursor = (cursor: unknown): Prisma.ScriptCommentWhereInput => {
+    if (cursor === undefined) {
+        return {};
+    }
+    const { createdAt, id } = decodeCursor<CommentCursor>(String(cursor));
+    const after = new Date(createdAt);
+    if (typeof id !== 'string' || isNaN(after.getTime())) {
+        throw new AppError('Invalid cursor parameter.', 400);
+    }
+    return {
+        OR: [
+            { createdAt: { lt: after } },
+            { createdAt: after, id: { lt: id } },
+        ],
+    };
+};
+
+// --- LIST (top-level comments newest first, each with its replies oldest first) ---
+// GET /api/scripts/:id/comments?limit=N&cursor=...
+export const getScriptComments = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    const limit = parseInt(req.query.limit as string || '20', 10);
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_COMMENTS_PAGE_SIZE) {
+        return next(new AppError(`Invalid limit parameter. Must be an integer between 1 and ${MAX_COMMENTS_PAGE_SIZE}.`, 400));
+    }
+
+    try {
+        const cursorWhere = parseCursor(req.query.cursor);
+        await ensureScriptVisible(id);
+
+        // Fetch one extra row to know whether there is another page
+        const comments = await prisma.scriptComment.findMany({
+            where: { scriptId: id, parentId: null, ...cursorWhere },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: limit + 1,
+            include: { replies: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] } },
+        });
+
+        const page = comments.slice(0, limit);
+        const last = page[page.length - 1];
+        const nextCursor = comments.length > limit && last
+            ? encodeCursor({ createdAt: last.createdAt.toISOString(), id: last.id })
+            : null;
+
+        res.status(200).json({
+            data: page.map(comment => ({
+                ...serializeComment(comment),
+                replies: comment.replies.map(serializeComment),
+            })),
+            pagination: {
+                pageSize: limit,
+                nextCursor,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- CREATE (comment or reply) ---
+// POST /api/scripts/:id/comments
+export const createComment = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const { body, displayName, parentId } = createCommentSchema.parse(req.body);
+        await ensureScriptVisible(id);
+
+        // Only one level of replies: the parent must be a live top-level comment on the same script
+        if (parentId) {
+            const parent = await prisma.scriptComment.findFirst({
+                where: { id: parentId, scriptId: id },
+                select: { parentId: true, deletedAt: true },
+            });
+            if (!parent || parent.deletedAt) {
+                return next(new AppError('Parent comment not found', 404));
+            }
+            if (parent.parentId) {
+                return next(new AppError('Replies cannot be nested. Reply to the top-level comment instead.', 400));
+            }
+        }
+
+        // Like a script's edit token, the delete token is only stored hashed and shown once
+        const deleteToken = generateToken();
+        const comment = await prisma.scriptComment.create({
+            data: {
+                scriptId: id,
+                parentId: parentId ?? null,
+                displayName: displayName ?? DEFAULT_DISPLAY_NAME,
+                body,
+                deleteTokenHash: hashToken(deleteToken),
+            },
+        });
+
+        res.status(201).json({ ...serializeComment(comment), deleteToken });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- DELETE (requires the comment's delete token in X-Edit-Token, or the admin key) ---
+// DELETE /api/scripts/:id/comments/:commentId
+export const deleteComment = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    const commentId = String(req.params.commentId);
+    try {
+        const comment = await prisma.scriptComment.findFirst({
+            where: { id: commentId, scriptId: id, deletedAt: null },
+            include: { _count: { select: { replies: true } } },
+        });
+        if (!comment) {
+            return next(new AppError('Comment not found', 404));
+        }
+        if (!canManageScript(req, { editTokenHash: comment.deleteTokenHash })) {
+            return next(new AppError('Invalid or missing delete token for this comment.', 403));
+        }
+
+        // A comment with replies is blanked out so the thread stays readable; anything else is removed
+        if (comment._count.replies > 0) {
+            await prisma.scriptComment.update({ where: { id: commentId }, data: { deletedAt: new Date() } });
+        } else {
+            await prisma.$transaction(async (tx) => {
+                await tx.scriptComment.delete({ where: { id: commentId } });
+                // A blanked-out parent is only kept for its replies, so it goes with the last of them
+                if (comment.parentId) {
+                    await tx.scriptComment.deleteMany({
+                        where: { id: comment.parentId, deletedAt: { not: null }, replies: { none: {} } },
+                    });
+                }
+            });
+        }
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as forkController from './forkController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    seriesEpisode: {
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+const source = {
+  id: 's1',
+  title: 'Bridge Crisis',
+  characters: ['Captain Eva', 'Engineer Jax'],
+  lines: [
+    { character: 'Captain Eva', dialogue: 'Report!' }, // Stored before typed lines existed
+    { type: 'dialogue', character: 'Engineer Jax', dialogue: 'Readings are off the charts.' },
+  ],
+  tags: ['sci-fi'],
+  status: 'approved',
+  hiddenAt: null,
+  deletedAt: null,
+  editTokenHash: hashToken('owner-token'),
+  parentId: null,
+};
+
+describe('Fork Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(source as any);
+    vi.mocked(prisma.scriptSnip.count).mockResolvedValue(10);
+    vi.mocked(prisma.scriptSnip.create).mockImplementation((async ({ data }: any) => ({ id: 'f1', ...data })) as any);
+    vi.mocked(prisma.seriesEpisode.findMany).mockResolvedValue([]); // Scripts aren't part of a series unless a test says so
+  });
+
+  describe('forkScript', () => {
+    it('should copy the source content, record the parent and return a new edit token', async () => {
+      await forkController.forkScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const data = (vi.mocked(prisma.scriptSnip.create).mock.calls[0][0] as any).data;
+      expect(data).toMatchObject({
+        title: 'Bridge Crisis',
+        characters: ['Captain Eva', 'Engineer Jax'],
+        tags: ['sci-fi'],
+        parentId: 's1',
+      });
+      expect(data.lines[0]).toEqual({ type: 'dialogue', character: 'Captain Eva', dialogue: 'Report!' });
+      expect(data.revisions.create.revision).toBe(1);
+
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(data.editTokenHash).toBe(hashToken(payload.editToken));
+      expect(data.editTokenHash).not.toBe(source.editTokenHash);
+      expect(payload).not.toHaveProperty('editTokenHash');
+    });
+
+    it('should apply overrides from the body', async () => {
+      mockRequest.body = {
+        title: 'Bridge Crisis (alternate ending)',
+        lines: [{ character: 'Engineer Jax', dialogue: 'We made it.' }],
+      };
+
+      await forkController.forkScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const data = (vi.mocked(prisma.scriptSnip.create).mock.calls[0][0] as any).data;
+      expect(data.title).toBe('Bridge Crisis (alternate ending)');
+      expect(data.characters).toEqual(['Captain Eva', 'Engineer Jax']);
+      expect(data.lines).toEqual([{ type: 'dialogue', character: 'Engineer Jax', dialogue: 'We made it.' }]);
+    });
+
+    it('should enforce the same script limit as createScript', async () => {
+      vi.mocked(prisma.scriptSnip.count).mockResolvedValue(500);
+
+      await forkController.forkScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(403);
+      expect(prisma.scriptSnip.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when forking a script the requester cannot see', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ ...source, status: 'pending' } as any);
+
+      await forkController.forkScript(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+      expect(prisma.scriptSnip.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getScriptAncestors', () => {
+    it('should walk the parent chain and return visible ancestors nearest first', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { id: 'p1', lines: [], editTokenHash: 'x', depth: 1 },
+        { id: 'p2', lines: [], editTokenHash: 'y', depth: 2 },
+      ] as any);
+
+      await forkController.getScriptAncestors(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const query = vi.mocked(prisma.$queryRaw).mock.calls[0][0] as any;
+      expect(query.sql).toContain('WITH RECURSIVE lineage');
+      expect(query.sql).toContain('"status" = \'approved\'');
+      expect(query.values).toEqual(['s1', 50]);
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.map((script: any) => [script.id, script.depth])).toEqual([['p1', 1], ['p2', 2]]);
+      expect(payload[0]).not.toHaveProperty('editTokenHash');
+    });
+  });
+
+  describe('getScriptForks', () => {
+    it('should list visible direct forks newest first', async () => {
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([{ id: 'f2', lines: [] }] as any);
+
+      await forkController.getScriptForks(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findMany).toHaveBeenCalledWith({
+        where: { parentId: 's1', ...visibleScriptWhere },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith([{ id: 'f2', lines: [] }]);
+    });
+
+    it('should add series navigation to forks that are episodes', async () => {
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([{ id: 'f2', lines: [] }] as any);
+      vi.mocked(prisma.seriesEpisode.findMany)
+        .mockResolvedValueOnce([{ scriptId: 'f2', seriesId: 'arc', position: 0, series: { title: 'Spin-off' } }] as any)
+        .mockResolvedValueOnce([{ seriesId: 'arc', scriptId: 'f2', position: 0, script: { title: null } }] as any);
+
+      await forkController.getScriptForks(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload[0].series).toEqual({ id: 'arc', title: 'Spin-off', episode: 1, episodeCount: 1, prev: null, next: null });
+    });
+
+    it('should return 404 for a trashed or unknown script', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await forkController.getScriptForks(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+      expect(prisma.scriptSnip.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
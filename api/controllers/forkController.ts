@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, ScriptSnip } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { canManageScript } from '../middleware/editAuth';
+import { forkScriptSchema } from '../schemas/scriptSchema';
+import { createScriptRecord } from '../utils/scriptCreation';
+import { attachSeriesNavigation } from '../utils/seriesNavigation';
+import { normalizeLines } from '../utils/scriptLines';
+import { serializeScript, serializeScripts } from '../utils/scriptSerializer';
+import { scriptColumnsSql } from '../utils/scriptColumns';
+import { liveScriptWhere, visibleScriptWhere, visibleScriptSql, isPubliclyVisible } from '../utils/visibility';
+
+// Safety net for the ancestor walk (a script's parent is fixed at creation, so real chains can't loop)
+const MAX_LINEAGE_DEPTH = 50;
+
+// Load a live script the requester may see: approved and not hidden, or their own (edit token) / any for admins
+const findViewableScript = async (req: Request, id: string): Promise<ScriptSnip> => {
+    const script = await prisma.scriptSnip.findFirst({ where: { id, ...liveScriptWhere } });
+    if (!script || (!isPubliclyVisible(script) && !canManageScript(req, script))) {
+        throw new AppError('Script not found', 404);
+    }
+    return script;
+};
+
+// --- FORK ---
+// POST /api/scripts/:id/fork - New script starting from the source's content and language; body fields override them
+export const forkScript = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const overrides = forkScriptSchema.parse(req.body ?? {});
+        const source = await findViewableScript(req, id);
+
+        // The fork goes through the same limits, filter, speaker check and moderation as a new script
+        const { script, editToken } = await createScriptRecord({
+            title: overrides.title ?? source.title ?? undefined,
+            characters: overrides.characters ?? source.characters,
+            lines: overrides.lines ?? normalizeLines(source.lines),
+            tags: overrides.tags ?? source.tags,
+            language: overrides.language ?? source.language ?? undefined,
+        }, { parentId: source.id });
+
+        res.status(201).json({ ...serializeScript(script), editToken });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- ANCESTORS ---
+// GET /api/scripts/:id/ancestors - The chain of scripts this one was forked from, nearest first.
+// Ancestors the public can't see are skipped, but the walk continues through them.
+export const getScriptAncestors = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        await findViewableScript(req, id);
+
+        const query = Prisma.sql`
+            WITH RECURSIVE lineage AS (
+                SELECT parent.id, parent."parentId", 1 AS depth
+                FROM script_snips child
+                JOIN script_snips parent ON parent.id = child."parentId"
+                WHERE child.id = ${id}
+                UNION ALL
+                SELECT parent.id, parent."parentId", lineage.depth + 1
+                FROM lineage
+                JOIN script_snips parent ON parent.id = lineage."parentId"
+                WHERE lineage.depth < ${MAX_LINEAGE_DEPTH}
+            )
+            SELECT ${scriptColumnsSql()}, lineage.depth
+            FROM lineage
+            JOIN script_snips ON script_snips.id = lineage.id
+            WHERE ${visibleScriptSql}
+            ORDER BY lineage.depth ASC;
+        `;
+        const ancestors = await prisma.$queryRaw<(ScriptSnip & { depth: number })[]>(query);
+
+        res.status(200).json(await attachSeriesNavigation(serializeScripts(ancestors)));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- FORKS ---
+// GET /api/scripts/:id/forks - Direct forks of a script, newest first
+export const getScriptForks = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        await findViewableScript(req, id);
+
+        const forks = await prisma.scriptSnip.findMany({
+            where: { parentId: id, ...visibleScriptWhere },
+            orderBy: { createdAt: 'desc' },
+        });
+        res.status(200).json(await attachSeriesNavigation(serializeScripts(forks)));
+    } catch (error) {
+        next(error);
+    }
+};
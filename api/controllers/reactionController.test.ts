@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as reactionController from './reactionController';
+import prisma from '../db';
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    scriptReaction: {
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+      groupBy: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+describe('Reaction Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1', type: 'laugh' }, query: {}, body: {}, ip: '198.51.100.4' };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(prisma)) as any);
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ id: 's1' } as any);
+  });
+
+  describe('addScriptReaction', () => {
+    it('should record the reaction once per client and refresh the stored counts', async () => {
+      vi.mocked(prisma.scriptReaction.groupBy).mockResolvedValue([
+        { type: 'laugh', _count: { _all: 4 } },
+        { type: 'chills', _count: { _all: 1 } },
+      ] as any);
+      vi.mocked(prisma.scriptReaction.findMany).mockResolvedValue([{ type: 'laugh' }] as any);
+
+      await reactionController.addScriptReaction(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const lock = vi.mocked(prisma.$queryRaw).mock.calls[0] as any;
+      expect(lock[0].join('?')).toContain('FOR UPDATE');
+      expect(vi.mocked(prisma.$queryRaw).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(prisma.scriptReaction.upsert).mock.invocationCallOrder[0]);
+      const upsert = vi.mocked(prisma.scriptReaction.upsert).mock.calls[0][0] as any;
+      expect(upsert.create).toEqual({ scriptId: 's1', type: 'laugh', clientHash: expect.stringMatching(/^[0-9a-f]{64}$/) });
+      expect(upsert.update).toEqual({});
+      const update = vi.mocked(prisma.$executeRaw).mock.calls[0] as any;
+      expect(update.slice(1)).toEqual(['{"laugh":4,"chills":1}', 5, 's1']);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        counts: { laugh: 4, chills: 1, applause: 0, tears: 0 },
+        total: 5,
+        mine: ['laugh'],
+      });
+    });
+
+    it('should treat a concurrent duplicate of the same reaction as already done', async () => {
+      vi.mocked(prisma.$transaction).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'mock' }));
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ reactionCounts: { laugh: 1 }, reactionTotal: 1 } as any);
+      vi.mocked(prisma.scriptReaction.findMany).mockResolvedValue([{ type: 'laugh' }] as any);
+
+      await reactionController.addScriptReaction(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({ counts: { laugh: 1, chills: 0, applause: 0, tears: 0 }, total: 1, mine: ['laugh'] });
+    });
+
+    it('should reject an unknown reaction type', async () => {
+      mockRequest.params = { id: 's1', type: 'meh' };
+
+      await reactionController.addScriptReaction(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReaction.upsert).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it('should call next with AppError(404) for a script that is not visible', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await reactionController.addScriptReaction(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+  });
+
+  describe('removeScriptReaction', () => {
+    it('should delete only this client\'s reaction of that type', async () => {
+      vi.mocked(prisma.scriptReaction.groupBy).mockResolvedValue([]);
+      vi.mocked(prisma.scriptReaction.findMany).mockResolvedValue([]);
+
+      await reactionController.removeScriptReaction(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReaction.deleteMany).toHaveBeenCalledWith({ where: { scriptId: 's1', type: 'laugh', clientHash: expect.any(String) } });
+      expect(mockResponse.json).toHaveBeenCalledWith({ counts: { laugh: 0, chills: 0, applause: 0, tears: 0 }, total: 0, mine: [] });
+    });
+  });
+
+  describe('getScriptReactions', () => {
+    it('should return the stored counts and the client\'s own reactions', async () => {
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ reactionCounts: { applause: 2 }, reactionTotal: 2 } as any);
+      vi.mocked(prisma.scriptReaction.findMany).mockResolvedValue([{ type: 'applause' }] as any);
+
+      await reactionController.getScriptReactions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({ counts: { laugh: 0, chills: 0, applause: 2, tears: 0 }, total: 2, mine: ['applause'] });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { REACTION_TYPES, reactionTypeSchema } from '../schemas/reactionSchema';
+import { clientFingerprint } from '../utils/clientFingerprint';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Reactions can only be left on scripts the public can see
+const ensureScriptVisible = async (id: string) => {
+    const script = await prisma.scriptSnip.findFirst({ where: { id, ...visibleScriptWhere }, select: { id: true } });
+    if (!script) {
+        throw new AppError('Script not found', 404);
+    }
+};
+
+// Reaction changes to a script take turns: each transaction locks the script row before touching its reactions,
+// so a recount always sees every earlier change and concurrent requests can't store a stale total
+const lockScript = (tx: Prisma.TransactionClient, scriptId: string) =>
+    tx.$queryRaw`SELECT id FROM script_snips WHERE id = ${scriptId} FOR UPDATE`;
+
+// Recount the script's reactions and store the totals on the script.
+// Raw SQL so the script's updatedAt (content changes only) is left alone.
+const refreshReactionCounts = async (tx: Prisma.TransactionClient, scriptId: string) => {
+    const groups = await tx.scriptReaction.groupBy({ by: ['type'], where: { scriptId }, _count: { _all: true } });
+    const counts = Object.fromEntries(groups.map(group => [group.type, group._count._all]));
+    const total = groups.reduce((sum, group) => sum + group._count._all, 0);
+    await tx.$executeRaw`
+        UPDATE script_snips
+        SET "reactionCounts" = ${JSON.stringify(counts)}::jsonb, "reactionTotal" = ${total}
+        WHERE id = ${scriptId}
+    `;
+    return { counts, total };
+};
+
+// Counts for every reaction type plus the ones the requesting client has left
+const reactionSummary = (counts: Record<string, number>, total: number, mine: string[]) => ({
+    counts: Object.fromEntries(REACTION_TYPES.map(type => [type, counts[type] ?? 0])),
+    total,
+    mine,
+});
+
+const clientReactions = async (tx: Prisma.TransactionClient, scriptId: string, clientHash: string) =>
+    (await tx.scriptReaction.findMany({ where: { scriptId, clientHash }, select: { type: true } })).map(reaction => reaction.type);
+
+// Summary from the totals stored on the script
+const storedReactionSummary = async (scriptId: string, clientHash: string) => {
+    const [script, mine] = await Promise.all([
+        prisma.scriptSnip.findUnique({ where: { id: scriptId }, select: { reactionCounts: true, reactionTotal: true } }),
+        clientReactions(prisma, scriptId, clientHash),
+    ]);
+    return reactionSummary(script?.reactionCounts as Record<string, number> ?? {}, script?.reactionTotal ?? 0, mine);
+};
+
+// --- LIST ---
+export const getScriptReactions = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        await ensureScriptVisible(id);
+        res.status(200).json(await storedReactionSummary(id, clientFingerprint(req)));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REACT (idempotent: one reaction per type per client) ---
+export const addScriptReaction = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const type = reactionTypeSchema.parse(req.params.type);
+        const clientHash = clientFingerprint(req);
+        await ensureScriptVisible(id);
+
+        let summary;
+        try {
+            summary = await prisma.$transaction(async (tx) => {
+                await lockScript(tx, id);
+                await tx.scriptReaction.upsert({
+                    where: { scriptId_type_clientHash: { scriptId: id, type, clientHash } },
+                    create: { scriptId: id, type, clientHash },
+                    update: {}, // Reacting twice keeps the original reaction (and its timestamp)
+                });
+                const { counts, total } = await refreshReactionCounts(tx, id);
+                return reactionSummary(counts, total, await clientReactions(tx, id, clientHash));
+            });
+        } catch (error) {
+            // The same reaction was stored by a concurrent request: nothing left to do
+            if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+                throw error;
+            }
+            summary = await storedReactionSummary(id, clientHash);
+        }
+        res.status(200).json(summary);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- UN-REACT ---
+export const removeScriptReaction = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const type = reactionTypeSchema.parse(req.params.type);
+        const clientHash = clientFingerprint(req);
+        await ensureScriptVisible(id);
+
+        const summary = await prisma.$transaction(async (tx) => {
+            await lockScript(tx, id);
+            await tx.scriptReaction.deleteMany({ where: { scriptId: id, type, clientHash } });
+            const { counts, total } = await refreshReactionCounts(tx, id);
+            return reactionSummary(counts, total, await clientReactions(tx, id, clientHash));
+        });
+        res.status(200).json(summary);
+    } catch (error) {
+        next(error);
+    }
+};
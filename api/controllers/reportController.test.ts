@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as reportController from './reportController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    scriptReport: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+  },
+}));
+
+describe('Report Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1' }, query: {}, body: { reason: 'spam', note: ' Link farm ' }, ip: '203.0.113.7' };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(prisma)) as any);
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ id: 's1' } as any);
+    vi.mocked(prisma.scriptReport.create).mockImplementation((async ({ data }: any) => ({ id: 'r1', createdAt: new Date(), resolvedAt: null, ...data })) as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('createReport', () => {
+    it('should store the report with a hashed reporter and return 201', async () => {
+      vi.mocked(prisma.scriptReport.count).mockResolvedValue(1);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.scriptReport.create).mock.calls[0][0] as any;
+      expect(data).toEqual({ scriptId: 's1', reason: 'spam', note: 'Link farm', reporterHash: expect.stringMatching(/^[0-9a-f]{64}$/) });
+      expect(data.reporterHash).not.toContain('203.0.113.7');
+      expect(prisma.scriptSnip.updateMany).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(vi.mocked(mockResponse.json!).mock.calls[0][0]).not.toHaveProperty('reporterHash');
+    });
+
+    it('should hide the script once the report threshold is reached', async () => {
+      vi.stubEnv('REPORT_HIDE_THRESHOLD', '2');
+      vi.mocked(prisma.scriptReport.count).mockResolvedValue(2);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.count).toHaveBeenCalledWith({ where: { scriptId: 's1', resolvedAt: null } });
+      expect(prisma.scriptSnip.updateMany).toHaveBeenCalledWith({ where: { id: 's1', hiddenAt: null }, data: { hiddenAt: expect.any(Date) } });
+    });
+
+    it('should lock the script before filing and counting reports', async () => {
+      vi.stubEnv('REPORT_HIDE_THRESHOLD', '2');
+      vi.mocked(prisma.scriptReport.count).mockResolvedValue(1);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const lock = vi.mocked(prisma.$queryRaw).mock.calls[0] as any;
+      expect(lock[0].join('?')).toContain('FOR UPDATE');
+      expect(lock[1]).toBe('s1');
+      const lockOrder = vi.mocked(prisma.$queryRaw).mock.invocationCallOrder[0];
+      expect(lockOrder).toBeLessThan(vi.mocked(prisma.scriptReport.create).mock.invocationCallOrder[0]);
+      expect(lockOrder).toBeLessThan(vi.mocked(prisma.scriptReport.count).mock.invocationCallOrder[0]);
+    });
+
+    it('should never hide scripts when the threshold is 0', async () => {
+      vi.stubEnv('REPORT_HIDE_THRESHOLD', '0');
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.count).not.toHaveBeenCalled();
+      expect(prisma.scriptSnip.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should call next with AppError(409) when the client already reported the script', async () => {
+      vi.mocked(prisma.scriptReport.findUnique).mockResolvedValue({ id: 'r0', resolvedAt: null } as any);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.create).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(409);
+    });
+
+    it('should reopen the client\'s report once an admin has resolved it', async () => {
+      vi.mocked(prisma.scriptReport.findUnique).mockResolvedValue({ id: 'r0', resolvedAt: new Date() } as any);
+      vi.mocked(prisma.scriptReport.update).mockImplementation((async ({ data }: any) => ({ id: 'r0', scriptId: 's1', ...data })) as any);
+      vi.mocked(prisma.scriptReport.count).mockResolvedValue(1);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.create).not.toHaveBeenCalled();
+      expect(prisma.scriptReport.update).toHaveBeenCalledWith({
+        where: { id: 'r0' },
+        data: { reason: 'spam', note: 'Link farm', resolvedAt: null, createdAt: expect.any(Date) },
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should call next with AppError(404) for a missing or hidden script', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+
+    it('should reject an unknown reason', async () => {
+      mockRequest.body = { reason: 'boring' };
+
+      await reportController.createReport(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptReport.create).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+});
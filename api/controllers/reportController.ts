@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { createReportSchema } from '../schemas/reportSchema';
+import { clientFingerprint } from '../utils/clientFingerprint';
+import { visibleScriptWhere } from '../utils/visibility';
+import { getReportHideThreshold } from '../config';
+
+// --- REPORT A SCRIPT ---
+// POST /api/scripts/:id/reports with { reason, note? }
+export const createReport = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const { reason, note } = createReportSchema.parse(req.body);
+        const reporterHash = clientFingerprint(req);
+
+        const script = await prisma.scriptSnip.findFirst({ where: { id, ...visibleScriptWhere }, select: { id: true } });
+        if (!script) {
+            return next(new AppError('Script not found', 404));
+        }
+
+        // One open report per reader and script (the unique constraint catches races as a 409 too).
+        // Once an admin has resolved it, reporting the script again reopens the reader's report.
+        const existingReport = await prisma.scriptReport.findUnique({
+            where: { scriptId_reporterHash: { scriptId: id, reporterHash } },
+            select: { id: true, resolvedAt: true },
+        });
+        if (existingReport && !existingReport.resolvedAt) {
+            return next(new AppError('You have already reported this script', 409));
+        }
+
+        const report = await prisma.$transaction(async (tx) => {
+            // Reports on a script take turns: with the script row locked, the count below sees every earlier
+            // report, so concurrent reports can't both stop one short of the threshold
+            await tx.$queryRaw`SELECT id FROM script_snips WHERE id = ${id} FOR UPDATE`;
+            const filed = existingReport
+                ? await tx.scriptReport.update({
+                    where: { id: existingReport.id },
+                    data: { reason, note: note || null, resolvedAt: null, createdAt: new Date() },
+                })
+                : await tx.scriptReport.create({
+                    data: { scriptId: id, reason, note: note || null, reporterHash },
+                });
+
+            // Hide the script once enough readers have reported it, until an admin reviews the reports
+            const threshold = getReportHideThreshold();
+            if (threshold > 0) {
+                const openReports = await tx.scriptReport.count({ where: { scriptId: id, resolvedAt: null } });
+                if (openReports >= threshold) {
+                    // Already hidden scripts keep the time they were first hidden
+                    await tx.scriptSnip.updateMany({ where: { id, hiddenAt: null }, data: { hiddenAt: new Date() } });
+                }
+            }
+            return filed;
+        });
+
+        // The reporter hash stays internal
+        res.status(201).json({
+            id: report.id,
+            scriptId: report.scriptId,
+            reason: report.reason,
+            note: report.note,
+            createdAt: report.createdAt,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as revisionController from './revisionController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    scriptRevision: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const revision = (number: number, lines: any[], extra: any = {}) => ({
+  id: `rev-${number}`, scriptId: 's1', revision: number, title: `Title ${number}`, characters: ['A'], lines, tags: [],
+  restoredFrom: null, createdAt: new Date(), ...extra,
+});
+
+describe('Revision Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: any) => fn(prisma)) as any);
+  });
+
+  describe('getScriptRevisions', () => {
+    it('should list revision summaries newest first', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ status: 'approved', editTokenHash: null } as any);
+      vi.mocked(prisma.scriptRevision.findMany).mockResolvedValue([revision(2, [{ character: 'A', dialogue: 'x' }]), revision(1, [])]);
+
+      await revisionController.getScriptRevisions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptRevision.findMany).toHaveBeenCalledWith({ where: { scriptId: 's1' }, orderBy: { revision: 'desc' } });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const body = vi.mocked(mockResponse.json!).mock.calls[0][0];
+      expect(body.map((entry: any) => [entry.revision, entry.lineCount])).toEqual([[2, 1], [1, 0]]);
+    });
+
+    it('should call next with AppError(404) if the script does not exist', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(null);
+
+      await revisionController.getScriptRevisions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+
+    it('should hide the history of unapproved scripts from the public', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ status: 'pending', editTokenHash: 'hash' } as any);
+
+      await revisionController.getScriptRevisions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptRevision.findMany).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+  });
+
+  describe('getScriptRevision', () => {
+    it('should call next with AppError(400) for a non-numeric revision', async () => {
+      mockRequest.params = { id: 's1', rev: 'latest' };
+
+      await revisionController.getScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+
+    it('should call next with AppError(404) if the revision does not exist', async () => {
+      mockRequest.params = { id: 's1', rev: '7' };
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ status: 'approved', editTokenHash: null } as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(null);
+
+      await revisionController.getScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+      expect((mockNext as any).mock.calls[0][0].message).toBe('Revision 7 not found');
+    });
+  });
+
+  describe('diffScriptRevisions', () => {
+    it('should diff the latest revision against the one before it by default', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ status: 'approved', editTokenHash: null } as any);
+      vi.mocked(prisma.scriptRevision.findFirst).mockResolvedValue({ revision: 2 } as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockImplementation((async ({ where }: any) =>
+        where.scriptId_revision.revision === 1
+          ? revision(1, [{ character: 'A', dialogue: 'Hi' }])
+          : revision(2, [{ type: 'dialogue', character: 'A', dialogue: 'Hi' }, { type: 'action', text: 'Door slams.' }])
+      ) as any);
+
+      await revisionController.diffScriptRevisions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const body = vi.mocked(mockResponse.json!).mock.calls[0][0];
+      expect(body.from).toBe(1);
+      expect(body.to).toBe(2);
+      expect(body.title).toEqual({ from: 'Title 1', to: 'Title 2', changed: true });
+      expect(body.summary).toEqual({ added: 1, removed: 0, unchanged: 1 });
+    });
+
+    it('should call next with AppError(400) when there is only one revision', async () => {
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ status: 'approved', editTokenHash: null } as any);
+      vi.mocked(prisma.scriptRevision.findFirst).mockResolvedValue({ revision: 1 } as any);
+
+      await revisionController.diffScriptRevisions(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(400);
+    });
+  });
+
+  describe('restoreScriptRevision', () => {
+    it('should copy the revision content back and record it as a new revision', async () => {
+      mockRequest.params = { id: 's1', rev: '1' };
+      const current = { id: 's1', title: 'Broken', characters: ['A'], lines: [], tags: [], createdAt: new Date(), updatedAt: new Date() };
+      const old = revision(1, [{ type: 'dialogue', character: 'A', dialogue: 'Good line' }]);
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue(current as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(old);
+      vi.mocked(prisma.scriptSnip.update).mockResolvedValue({ ...current, title: old.title, lines: old.lines } as any);
+      vi.mocked(prisma.scriptRevision.findFirst).mockResolvedValue({ revision: 3 } as any);
+
+      await revisionController.restoreScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: { title: old.title, characters: old.characters, lines: old.lines, tags: old.tags },
+      });
+      expect(prisma.scriptRevision.create).toHaveBeenCalledWith({ data: expect.objectContaining({ revision: 4, restoredFrom: 1 }) });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should drop character links for cast names the restored revision does not have', async () => {
+      mockRequest.params = { id: 's1', rev: '1' };
+      const current = { id: 's1', title: 'Now', characters: ['A', 'B'], lines: [], tags: [], createdAt: new Date() };
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue(current as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(revision(1, [{ type: 'dialogue', character: 'A', dialogue: 'Hi' }]));
+      vi.mocked(prisma.scriptSnip.update).mockImplementation((async ({ data }: any) => ({ ...current, ...data })) as any);
+
+      await revisionController.restoreScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.scriptSnip.update).mock.calls[0][0] as any;
+      expect(data.characters).toEqual(['A']);
+      expect(data.characterLinks).toEqual({ deleteMany: { castName: { in: ['B'] } } });
+    });
+
+    it('should hold restored content flagged by the content filter for review', async () => {
+      mockRequest.params = { id: 's1', rev: '1' };
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ id: 's1', characters: ['A'], status: 'approved', createdAt: new Date() } as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(
+        revision(1, [{ type: 'dialogue', character: 'A', dialogue: 'Mail me at someone@example.com or see https://spam.example' }]));
+      vi.mocked(prisma.scriptSnip.update).mockImplementation((async ({ data }: any) => ({ id: 's1', ...data })) as any);
+
+      await revisionController.restoreScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.scriptSnip.update).mock.calls[0][0] as any;
+      expect(data.lines[0].dialogue).not.toContain('someone@example.com');
+      expect(data.status).toBe('pending');
+      expect(data.moderationReason).toContain('url in lines.0.dialogue');
+    });
+
+    it('should call next with AppError(422) when the restored content matches a reject rule', async () => {
+      const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-filter-'));
+      const configPath = path.join(configDir, 'filter.json');
+      fs.writeFileSync(configPath, JSON.stringify({ rules: [{ id: 'banned', action: 'reject', words: ['forbidden'] }] }));
+      vi.stubEnv('CONTENT_FILTER_CONFIG', configPath);
+      mockRequest.params = { id: 's1', rev: '1' };
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ id: 's1', status: 'approved' } as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(revision(1, [{ type: 'dialogue', character: 'A', dialogue: 'A forbidden word' }]));
+
+      await revisionController.restoreScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+      fs.rmSync(configDir, { recursive: true, force: true });
+      vi.unstubAllEnvs();
+
+      expect(prisma.scriptSnip.update).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(422);
+    });
+
+    it('should call next with AppError(404) if the revision does not exist', async () => {
+      mockRequest.params = { id: 's1', rev: '9' };
+      vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ id: 's1' } as any);
+      vi.mocked(prisma.scriptRevision.findUnique).mockResolvedValue(null);
+
+      await revisionController.restoreScriptRevision(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.update).not.toHaveBeenCalled();
+      expect((mockNext as any).mock.calls[0][0].statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import { ScriptLine } from '../schemas/scriptSchema';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeLines } from '../utils/scriptLines';
+import { serializeScript } from '../utils/scriptSerializer';
+import { diffLines, diffStringLists } from '../utils/lineDiff';
+import { recordScriptRevision, revisionContent } from '../utils/scriptRevisions';
+import { liveScriptWhere, isPubliclyVisible } from '../utils/visibility';
+import { moderationAfterEdit } from '../utils/moderation';
+import { filterScriptContent } from '../utils/contentFilter';
+import { canManageScript } from '../middleware/editAuth';
+import { isAdminRequest } from '../middleware/adminAuth';
+
+// Parse a revision number from a route/query parameter (positive integer)
+const parseRevisionNumber = (value: unknown, name: string): number => {
+    const revision = parseInt(String(value), 10);
+    if (isNaN(revision) || revision < 1 || String(revision) !== String(value)) {
+        throw new AppError(`Invalid ${name} parameter. Must be a positive integer.`, 400);
+    }
+    return revision;
+};
+
+// Make sure the script exists, isn't trashed and may be seen by the requester before looking at its revisions
+const ensureScriptExists = async (req: Request, id: string) => {
+    const script = await prisma.scriptSnip.findFirst({
+        where: { id, ...liveScriptWhere },
+        select: { status: true, hiddenAt: true, editTokenHash: true },
+    });
+    if (!script || (!isPubliclyVisible(script) && !canManageScript(req, script))) {
+        throw new AppError('Script not found', 404);
+    }
+};
+
+const findRevision = async (scriptId: string, revision: number) => {
+    const found = await prisma.scriptRevision.findUnique({
+        where: { scriptId_revision: { scriptId, revision } },
+    });
+    if (!found) {
+        throw new AppError(`Revision ${revision} not found`, 404);
+    }
+    return found;
+};
+
+// --- LIST REVISIONS ---
+export const getScriptRevisions = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        await ensureScriptExists(req, id);
+
+        const revisions = await prisma.scriptRevision.findMany({
+            where: { scriptId: id },
+            orderBy: { revision: 'desc' }, // Newest first
+        });
+
+        // Summaries only, fetch a single revision for its lines
+        res.status(200).json(revisions.map(revision => ({
+            revision: revision.revision,
+            title: revision.title,
+            characters: revision.characters,
+            tags: revision.tags,
+            lineCount: Array.isArray(revision.lines) ? revision.lines.length : 0,
+            restoredFrom: revision.restoredFrom,
+            createdAt: revision.createdAt,
+        })));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- READ ONE REVISION ---
+export const getScriptRevision = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const revisionNumber = parseRevisionNumber(req.params.rev, 'revision');
+        await ensureScriptExists(req, id);
+        const revision = await findRevision(id, revisionNumber);
+
+        res.status(200).json(serializeScript(revision));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- DIFF TWO REVISIONS ---
+// GET /api/scripts/:id/revisions/diff?from=1&to=3
+// 'to' defaults to the latest revision, 'from' to the revision before 'to'
+export const diffScriptRevisions = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        await ensureScriptExists(req, id);
+
+        let toNumber: number;
+        if (req.query.to !== undefined) {
+            toNumber = parseRevisionNumber(req.query.to, 'to');
+        } else {
+            const latest = await prisma.scriptRevision.findFirst({
+                where: { scriptId: id },
+                orderBy: { revision: 'desc' },
+                select: { revision: true },
+            });
+            if (!latest) {
+                return next(new AppError('Script has no revisions to compare', 404));
+            }
+            toNumber = latest.revision;
+        }
+        const fromNumber = req.query.from !== undefined ? parseRevisionNumber(req.query.from, 'from') : toNumber - 1;
+        if (fromNumber < 1) {
+            return next(new AppError('Script has only one revision, nothing to compare', 400));
+        }
+
+        const [fromRevision, toRevision] = await Promise.all([findRevision(id, fromNumber), findRevision(id, toNumber)]);
+        const lineDiff = diffLines(
+            normalizeLines(fromRevision.lines) as ScriptLine[],
+            normalizeLines(toRevision.lines) as ScriptLine[]
+        );
+
+        res.status(200).json({
+            from: fromNumber,
+            to: toNumber,
+            title: { from: fromRevision.title, to: toRevision.title, changed: fromRevision.title !== toRevision.title },
+            characters: diffStringLists(fromRevision.characters, toRevision.characters),
+            tags: diffStringLists(fromRevision.tags, toRevision.tags),
+            lines: lineDiff,
+            summary: {
+                added: lineDiff.filter(entry => entry.op === 'added').length,
+                removed: lineDiff.filter(entry => entry.op === 'removed').length,
+                unchanged: lineDiff.filter(entry => entry.op === 'equal').length,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- RESTORE A REVISION ---
+// Copies the revision's content back onto the script, which is itself recorded as a new revision
+export const restoreScriptRevision = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const revisionNumber = parseRevisionNumber(req.params.rev, 'revision');
+
+        const restoredScript = await prisma.$transaction(async (tx) => {
+            const previous = await tx.scriptSnip.findUnique({ where: { id } });
+            if (!previous || previous.deletedAt) {
+                throw new AppError('Script not found', 404);
+            }
+            const revision = await tx.scriptRevision.findUnique({
+                where: { scriptId_revision: { scriptId: id, revision: revisionNumber } },
+            });
+            if (!revision) {
+                throw new AppError(`Revision ${revisionNumber} not found`, 404);
+            }
+
+            // Old content goes through the content filter like any edit: the rules may have changed since it was saved
+            const { content, flagged } = filterScriptContent({
+                ...revisionContent(revision),
+                lines: normalizeLines(revision.lines) as ScriptLine[],
+            });
+
+            // Links to cast names the restored cast no longer has are dropped, as when an edit changes the cast
+            const removed = previous.characters.filter(name => !content.characters.includes(name));
+
+            const updated = await tx.scriptSnip.update({
+                where: { id },
+                data: {
+                    ...content,
+                    ...(removed.length > 0 && { characterLinks: { deleteMany: { castName: { in: removed } } } }),
+                    ...moderationAfterEdit(previous.status, isAdminRequest(req), flagged),
+                },
+            });
+            await recordScriptRevision(tx, updated, previous, revisionNumber);
+            return updated;
+        });
+
+        res.status(200).json(serializeScript(restoredScript));
+    } catch (error) {
+        next(error);
+    }
+};
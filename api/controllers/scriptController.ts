@@ -1,38 +1,75 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../db';
 import { Prisma } from '@prisma/client';
-import { createScriptSchema, updateScriptSchema } from '../schemas/scriptSchema';
+import { ZodError } from 'zod';
+import { updateScriptSchema, normalizeTag, ScriptLine } from '../schemas/scriptSchema';
+import { scriptRangeFilterSchema, ScriptRangeFilters } from '../schemas/scriptQuerySchema';
 import { AppError } from '../middleware/errorHandler'; // Ensure AppError is imported
+import { serializeScript, serializeScripts } from '../utils/scriptSerializer';
+import { scriptColumnsSql } from '../utils/scriptColumns';
+import { normalizeLines, lineCountSql, castSizeSql, wordCountSql } from '../utils/scriptLines';
+import { applySpeakerConsistency } from '../utils/speakerConsistency';
+import { getSpeakerCheckMode } from '../config';
+import { recordScriptRevision } from '../utils/scriptRevisions';
+import { visibleScriptWhere, visibleScriptSql, liveScriptWhere, isPubliclyVisible } from '../utils/visibility';
+import { moderationAfterEdit } from '../utils/moderation';
+import { filterScriptContent } from '../utils/contentFilter';
+import { createScriptRecord } from '../utils/scriptCreation';
+import { attachSeriesNavigation } from '../utils/seriesNavigation';
+import { resolveCharacterLinks } from '../utils/characterLinks';
+import { resolveTranslationOf } from '../utils/translations';
+import { parseLanguageFilter, languageFilterWhere, languageFilterSql } from '../utils/language';
+import { searchMatchSql, searchRankSql, searchHighlightsSql, formatHighlights } from '../utils/fullTextSearch';
+import { fuzzyMatchSql, fuzzyScoreSql, searchWords, suggestionQuerySql, buildSuggestions } from '../utils/fuzzySearch';
+import { KEYSET_SORT_FIELDS, keysetConditionSql, keysetOrderSql, cursorKeyColumnSql, nextScriptCursor } from '../utils/keysetPagination';
+import { parseProjection, projectScript, projectScripts, projectionSelectSql, includesField } from '../utils/projection';
+import { parseSearchQuery, searchQuerySql, SearchNode } from '../utils/searchQuery';
+import { parseFacets, parseLineBucket, parseMonth, lineBucketSql, facetQuerySql, formatFacet, FacetName } from '../utils/facets';
+import { reactionTrendingScoreSql, TRENDING_WINDOWS, TRENDING_REACTION_WEIGHT } from '../utils/popularity';
+import { recordViews } from '../utils/viewTracking';
+import { clientFingerprint } from '../utils/clientFingerprint';
+import { canManageScript } from '../middleware/editAuth';
+import { isAdminRequest } from '../middleware/adminAuth';
 
 // --- CREATE ---
 export const createScript = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        // --- BEGIN HARD LIMIT CHECK ---
-        const currentScriptCount = await prisma.scriptSnip.count();
-        const MAX_SCRIPTS_ALLOWED = 500;
-
-        if (currentScriptCount >= MAX_SCRIPTS_ALLOWED) {
-            // Use AppError for a structured error response
-            // 403 Forbidden is appropriate as the request is understood but refused
-            // Or 503 Service Unavailable if you want to indicate the service is temporarily unable to handle the request
-            return next(new AppError(`Database limit reached. Cannot create more than ${MAX_SCRIPTS_ALLOWED} scripts.`, 403));
-        }
-        // --- END HARD LIMIT CHECK ---
-
-        // Now createScriptSchema is recognized
-        const validatedData = createScriptSchema.parse(req.body);
-        const { title, characters, lines } = validatedData;
-
-        const newScript = await prisma.scriptSnip.create({
-            data: { title: title || 'Untitled', characters, lines },
-        });
-        res.status(201).json(newScript);
+        // Limits, validation, content filter, speaker check and moderation all live in createScriptRecord
+        const { script, editToken } = await createScriptRecord(req.body);
+        res.status(201).json({ ...serializeScript(script), editToken });
 
     } catch (error) {
         next(error);
     }
 };
 
+// Raw SQL conditions for the range filters of the list endpoint
+const rangeFilterConditions = (ranges: ScriptRangeFilters): Prisma.Sql[] => {
+    const conditions: Prisma.Sql[] = [];
+    const between = (measure: Prisma.Sql, min?: number, max?: number) => {
+        if (min !== undefined) {
+            conditions.push(Prisma.sql`${measure} >= ${min}`);
+        }
+        if (max !== undefined) {
+            conditions.push(Prisma.sql`${measure} <= ${max}`);
+        }
+    };
+    between(lineCountSql, ranges.minLines, ranges.maxLines);
+    between(castSizeSql, ranges.minCharacters, ranges.maxCharacters);
+    between(wordCountSql, ranges.minWords, ranges.maxWords);
+    if (ranges.createdAfter) {
+        conditions.push(Prisma.sql`"createdAt" >= ${ranges.createdAfter}`);
+    }
+    if (ranges.createdBefore) {
+        conditions.push(Prisma.sql`"createdAt" < ${ranges.createdBefore}`);
+    }
+    return conditions;
+};
+
+// The range filters that were given, for echoing in the pagination metadata
+const appliedRanges = (ranges: ScriptRangeFilters) =>
+    Object.fromEntries(Object.entries(ranges).filter(([, value]) => value !== undefined));
+
 // --- READ ALL (Unified Raw SQL with Pagination, Search, and Sorting) ---
 export const getAllScripts = async (req: Request, res: Response, next: NextFunction) => {
     // 1. Get pagination parameters
@@ -40,12 +77,62 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
     const limit = parseInt(req.query.limit as string || '10', 10);
 
     // 2. Get the single 'search' parameter
-    const search = req.query.search as string | undefined;
-    const searchTerm = search ? `%${search}%` : undefined; // Prepare searchTerm only if search exists
+    const search = req.query.search ? String(req.query.search).trim() || undefined : undefined;
+    // fuzzy=true tolerates misspellings in the search (trigram closeness instead of full-text matching)
+    const fuzzy = Boolean(search) && String(req.query.fuzzy).toLowerCase() === 'true';
+
+    // 2b. Get tag filter (comma-separated and/or repeated 'tags' params) and match mode
+    const tagsQuery = req.query.tags as string | string[] | undefined;
+    const tags = Array.from(new Set(
+        (Array.isArray(tagsQuery) ? tagsQuery : [tagsQuery || ''])
+            .flatMap(value => String(value).split(','))
+            .map(normalizeTag)
+            .filter(tag => tag)
+    ));
+    const tagMatch = (req.query.tagMatch as string || 'any').toLowerCase();
+    if (tagMatch !== 'any' && tagMatch !== 'all') {
+        return next(new AppError("Invalid tagMatch parameter. Must be 'any' or 'all'.", 400));
+    }
+
+    // 2c. Only scripts with a cast entry linked to this registry character
+    const characterId = req.query.characterId ? String(req.query.characterId) : undefined;
+    // ...or with this exact cast name (the values of the 'character' facet)
+    const character = req.query.character ? String(req.query.character) : undefined;
+
+    // 2d. Language filter (lang=en matches en, en-US, ...)
+    // 2e. Structured query (q=speaker:Jax says:readings -title:draft), parse errors are reported as 400s
+    const q = req.query.q ? String(req.query.q).trim() || undefined : undefined;
+    // 2f. Facet filters (lines=6-10, month=2025-05) and the facets to count (facets=character,tag,lines,month)
+    let languages: string[];
+    let searchTree: SearchNode | undefined;
+    let lineBucket: ReturnType<typeof parseLineBucket> | undefined;
+    let month: ReturnType<typeof parseMonth> | undefined;
+    let facets: FacetName[];
+    // 2g. Size and date ranges (minLines/maxLines, minCharacters/maxCharacters, minWords/maxWords, createdAfter/createdBefore)
+    let ranges: ScriptRangeFilters;
+    // 2h. Projection (fields=id,title or view=summary)
+    let projection: string[] | null;
+    try {
+        languages = parseLanguageFilter(req.query.lang);
+        searchTree = q ? parseSearchQuery(q) : undefined;
+        lineBucket = req.query.lines ? parseLineBucket(req.query.lines) : undefined;
+        month = req.query.month ? parseMonth(req.query.month) : undefined;
+        facets = parseFacets(req.query.facets);
+        ranges = scriptRangeFilterSchema.parse(req.query);
+        projection = parseProjection(req.query);
+    } catch (error) {
+        return next(error);
+    }
+
+    // Cursor mode: 'cursor' (empty for the first page) replaces page numbers (see 4b)
+    const cursor = req.query.cursor !== undefined ? String(req.query.cursor) : undefined;
 
     // 3. Get and validate sorting parameters
-    const allowedSortFields = ['title', 'createdAt'];
-    const defaultSortBy = 'createdAt';
+    // popular: most reactions overall, trending: reactions weighted by how recent they are,
+    // relevance: full-text rank, or closeness in fuzzy mode (needs a search, and the default for one;
+    // cursor pages can't continue after a rank, so they keep createdAt as their default)
+    const allowedSortFields = ['title', 'createdAt', 'popular', 'trending', 'relevance'];
+    const defaultSortBy = search && cursor === undefined ? 'relevance' : 'createdAt';
     const defaultSortOrder = 'desc';
 
     let sortBy = req.query.sortBy as string || defaultSortBy;
@@ -53,6 +140,9 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
     if (!allowedSortFields.includes(sortBy)) {
         sortBy = defaultSortBy; // Fallback to default if invalid field provided
     }
+    if (sortBy === 'relevance' && !search) {
+        return next(new AppError('sortBy=relevance requires a search parameter.', 400));
+    }
 
     let sortOrder = (req.query.sortOrder as string || defaultSortOrder).toLowerCase();
     if (sortOrder !== 'asc' && sortOrder !== 'desc') {
@@ -65,42 +155,102 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
         return next(new AppError('Invalid pagination parameters. Page and limit must be positive integers.', 400));
     }
 
+    // 4b. In cursor mode the total is only counted on request
+    const includeTotal = cursor === undefined || String(req.query.includeTotal).toLowerCase() === 'true';
+    if (cursor !== undefined && !KEYSET_SORT_FIELDS.includes(sortBy)) {
+        return next(new AppError(`Cursor pagination only supports sortBy=${KEYSET_SORT_FIELDS.join(' or ')}.`, 400));
+    }
+
     // 5. Calculate skip
     const skip = (page - 1) * limit;
 
     try {
         // --- Unified Raw SQL Query Construction ---
 
-        // Dynamically construct WHERE clause
-        let whereClause = Prisma.sql`WHERE 1=1`; // Start with a clause that's always true
-        if (searchTerm) {
-            whereClause = Prisma.sql`WHERE
-                title ILIKE ${searchTerm} OR
-                EXISTS (SELECT 1 FROM unnest(characters) AS char WHERE char ILIKE ${searchTerm}) OR
-                EXISTS (
-                  SELECT 1 FROM jsonb_array_elements(lines) AS line
-                  WHERE line->>'dialogue' ILIKE ${searchTerm}
-                )`;
+        // Dynamically construct WHERE clause from the active filters (combined with AND)
+        const conditions: Prisma.Sql[] = [visibleScriptSql]; // Never list trashed scripts
+        if (search) {
+            // Title, cast and line text through the indexed search document (stemmed, so "reading" finds "readings"),
+            // or anything close enough to the search in fuzzy mode (so "Rostva" finds "Rostova")
+            conditions.push(fuzzy ? fuzzyMatchSql(search) : searchMatchSql(search));
         }
+        if (tags.length > 0) {
+            // && = overlaps (any tag matches), @> = contains (all tags match)
+            conditions.push(tagMatch === 'all'
+                ? Prisma.sql`tags @> ${tags}::text[]`
+                : Prisma.sql`tags && ${tags}::text[]`);
+        }
+        if (characterId) {
+            conditions.push(Prisma.sql`EXISTS (
+                SELECT 1 FROM script_characters
+                WHERE script_characters."scriptId" = script_snips.id AND script_characters."characterId" = ${characterId}
+            )`);
+        }
+        if (languages.length > 0) {
+            conditions.push(languageFilterSql(languages));
+        }
+        if (searchTree) {
+            conditions.push(searchQuerySql(searchTree));
+        }
+        if (character) {
+            conditions.push(Prisma.sql`${character} = ANY(characters)`);
+        }
+        if (lineBucket) {
+            conditions.push(lineBucketSql(lineBucket));
+        }
+        if (month) {
+            conditions.push(Prisma.sql`"createdAt" >= ${month.start} AND "createdAt" < ${month.end}`);
+        }
+        conditions.push(...rangeFilterConditions(ranges));
+        const whereClause = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
 
         // Dynamically construct ORDER BY clause safely using the *final* validated sortBy/sortOrder
         let orderByRaw;
         if (sortBy === 'title') {
-            // Apply LOWER() for case-insensitive title sort
-            // Use Prisma.raw for the sortOrder part to prevent SQL injection
-            orderByRaw = Prisma.sql`ORDER BY LOWER("title") ${Prisma.raw(sortOrder)}`;
+            // Case-insensitive, untitled scripts as '', ties broken by ID: the same order cursor pages walk through
+            orderByRaw = keysetOrderSql({ sortBy, sortOrder });
+        } else if (sortBy === 'popular') {
+            // Newest first among equally popular scripts
+            orderByRaw = Prisma.sql`ORDER BY "reactionTotal" ${Prisma.raw(sortOrder)}, "createdAt" DESC`;
+        } else if (sortBy === 'trending') {
+            orderByRaw = Prisma.sql`ORDER BY ${reactionTrendingScoreSql} ${Prisma.raw(sortOrder)}, "createdAt" DESC`;
+        } else if (sortBy === 'relevance' && search) { // Always with a search, checked above
+            orderByRaw = Prisma.sql`ORDER BY ${fuzzy ? fuzzyScoreSql(search) : searchRankSql(search)} ${Prisma.raw(sortOrder)}, "createdAt" DESC`;
         } else { // Default to createdAt (or other validated fields)
             // Use Prisma.raw for the sortOrder part
             orderByRaw = Prisma.sql`ORDER BY "createdAt" ${Prisma.raw(sortOrder)}`;
         }
 
+        // Search results say where they matched (highlights), or how close they came in fuzzy mode (closeness),
+        // unless a projection leaves them out
+        let searchColumns = Prisma.empty;
+        if (search && fuzzy && includesField(projection, 'closeness')) {
+            searchColumns = Prisma.sql`, round(${fuzzyScoreSql(search)}::numeric, 4)::float AS closeness`;
+        } else if (search && !fuzzy && includesField(projection, 'highlights')) {
+            searchColumns = Prisma.sql`, ${searchHighlightsSql(search)}`;
+        }
+
         // Combine clauses for data query
-        const dataQuery = Prisma.sql`
-            SELECT * FROM script_snips
-            ${whereClause}
-            ${orderByRaw} -- Apply dynamic ORDER BY using final validated values
-            LIMIT ${limit} OFFSET ${skip};
-        `;
+        let dataQuery: Prisma.Sql;
+        if (cursor === undefined) {
+            dataQuery = Prisma.sql`
+                SELECT ${projectionSelectSql(projection)}${searchColumns} FROM script_snips
+                ${whereClause}
+                ${orderByRaw} -- Apply dynamic ORDER BY using final validated values
+                LIMIT ${limit} OFFSET ${skip};
+            `;
+        } else {
+            // Keyset page: rows after the cursor (none for the first page), one extra to tell whether more follow
+            const keysetWhere = cursor
+                ? Prisma.sql`${whereClause} AND ${keysetConditionSql({ sortBy, sortOrder }, cursor)}`
+                : whereClause;
+            dataQuery = Prisma.sql`
+                SELECT ${projectionSelectSql(projection)}${searchColumns}, ${cursorKeyColumnSql(sortBy)} FROM script_snips
+                ${keysetWhere}
+                ${keysetOrderSql({ sortBy, sortOrder })}
+                LIMIT ${limit + 1};
+            `;
+        }
 
         // Count query (doesn't need sorting)
         const countQuery = Prisma.sql`
@@ -109,13 +259,30 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
         `;
         // --- End Unified Raw SQL Query Construction ---
 
-        // Execute queries in parallel
-        const [dataResult, countResult] = await prisma.$transaction([
+        // Execute queries in parallel (facet counts use the same WHERE as the list)
+        const [dataResult, ...otherResults] = await prisma.$transaction([
             prisma.$queryRaw(dataQuery),
-            prisma.$queryRaw(countQuery),
+            ...(includeTotal ? [prisma.$queryRaw(countQuery)] : []),
+            ...facets.map(facet => prisma.$queryRaw(facetQuerySql(facet, whereClause))),
         ]);
+        const countResult = includeTotal ? otherResults[0] as any[] : undefined;
+        const facetResults = otherResults.slice(includeTotal ? 1 : 0);
+
+        // 6. In cursor mode, the extra row only tells that there is a next page
+        let rows = dataResult as any[];
+        let nextCursor: string | null = null;
+        if (cursor !== undefined) {
+            if (rows.length > limit) {
+                rows = rows.slice(0, limit);
+                nextCursor = nextScriptCursor({ sortBy, sortOrder }, rows[rows.length - 1]);
+            }
+            rows = rows.map(({ cursorKey, ...row }) => row);
+        }
 
-        const scripts = dataResult as any[]; // Assign raw result
+        const serialized = serializeScripts(rows)
+            .map(script => script.highlights ? { ...script, highlights: formatHighlights(script.highlights) } : script);
+        // prev/next for episodes of a series
+        const scripts = includesField(projection, 'series') ? await attachSeriesNavigation(serialized) : serialized;
         let totalScripts: number = 0;
 
         // FIX: Correctly parse count from the result (which is an array with one object)
@@ -129,7 +296,7 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
                  // Decide how to handle - throw error, default to 0, etc.
                  totalScripts = 0; // Defaulting to 0 if parsing fails
              }
-        } else {
+        } else if (includeTotal) { // Cursor mode only counts with includeTotal=true
              console.warn("Unexpected count query result format:", countResult);
              totalScripts = 0; // Defaulting to 0 if format is wrong
         }
@@ -138,17 +305,42 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
         // 7. Calculate total pages
         const totalPages = Math.ceil(totalScripts / limit);
 
+        // 7b. A search that found nothing gets "did you mean" alternatives from the words in visible scripts
+        const foundNothing = cursor === undefined ? totalScripts === 0 : !cursor && scripts.length === 0;
+        let suggestions: string[] | undefined;
+        if (search && foundNothing) {
+            const words = searchWords(search);
+            const suggestionRows = words.length > 0
+                ? await prisma.$queryRaw<{ term: string; word: string; score: number }[]>(suggestionQuerySql(words))
+                : [];
+            suggestions = buildSuggestions(search, suggestionRows);
+        }
+
         // 8. Send response
         res.status(200).json({
-            data: scripts,
+            data: projectScripts(scripts, projection),
             pagination: {
-                totalItems: totalScripts,
-                currentPage: page,
-                totalPages,
+                ...(cursor === undefined
+                    ? { totalItems: totalScripts, currentPage: page, totalPages }
+                    : { ...(includeTotal && { totalItems: totalScripts }), nextCursor }),
                 pageSize: limit, // Ensure pageSize is included
                 sortBy, // Use validated sortBy
-                sortOrder // Use validated sortOrder
-            }
+                sortOrder, // Use validated sortOrder
+                ...(tags.length > 0 && { tags, tagMatch }), // Echo the tag filter only when it is active
+                ...(characterId && { characterId }),
+                ...(languages.length > 0 && { lang: languages }),
+                ...(fuzzy && { fuzzy }),
+                ...(q && { q }),
+                ...(character && { character }),
+                ...(lineBucket && { lines: lineBucket.key }),
+                ...(month && { month: month.month }),
+                ...appliedRanges(ranges)
+            },
+            // Counts per value for the whole filtered result set, only when asked for
+            ...(facets.length > 0 && {
+                facets: Object.fromEntries(facets.map((facet, index) => [facet, formatFacet(facet, facetResults[index] as any[])])),
+            }),
+            ...(suggestions && { suggestions })
         });
 
     } catch (error) {
@@ -157,20 +349,93 @@ export const getAllScripts = async (req: Request, res: Response, next: NextFunct
     }
 };
 
+// --- READ TAGS (with usage counts) ---
+export const getScriptTags = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const tagRows = await prisma.$queryRaw<{ name: string; count: bigint }[]>`
+            SELECT tag AS name, COUNT(*) AS count
+            FROM script_snips, unnest(tags) AS tag
+            WHERE ${visibleScriptSql}
+            GROUP BY tag
+            ORDER BY count DESC, tag ASC;
+        `;
+
+        // COUNT(*) comes back as BigInt, convert for JSON serialization
+        res.status(200).json(tagRows.map(row => ({ name: row.name, count: Number(row.count) })));
+    } catch (error) {
+        console.error("Error in getScriptTags:", error);
+        next(error);
+    }
+};
+
+// --- READ TRENDING ---
+// GET /api/scripts/trending?window=24h|7d|30d&limit=N
+// Ranks scripts by views and reactions within the window (a reaction counts as TRENDING_REACTION_WEIGHT views)
+export const getTrendingScripts = async (req: Request, res: Response, next: NextFunction) => {
+    const window = (req.query.window as string || '24h').toLowerCase();
+    // Own keys only, so names like 'constructor' aren't taken for a window
+    if (!Object.hasOwn(TRENDING_WINDOWS, window)) {
+        return next(new AppError(`Invalid window parameter. Must be one of: ${Object.keys(TRENDING_WINDOWS).join(', ')}.`, 400));
+    }
+
+    const limit = parseInt(req.query.limit as string || '10', 10);
+    const MAX_TRENDING_LIMIT = 50;
+    if (isNaN(limit) || limit < 1 || limit > MAX_TRENDING_LIMIT) {
+        return next(new AppError(`Invalid limit parameter. Must be an integer between 1 and ${MAX_TRENDING_LIMIT}.`, 400));
+    }
+
+    const since = new Date(Date.now() - TRENDING_WINDOWS[window] * 60 * 60 * 1000);
+
+    try {
+        const trendingQuery = Prisma.sql`
+            SELECT * FROM (
+                SELECT ${scriptColumnsSql()},
+                    (SELECT COUNT(*) FROM script_views v
+                     WHERE v."scriptId" = script_snips.id AND v."createdAt" >= ${since})::int AS "recentViews",
+                    (SELECT COUNT(*) FROM script_reactions r
+                     WHERE r."scriptId" = script_snips.id AND r."createdAt" >= ${since})::int AS "recentReactions"
+                FROM script_snips
+                WHERE ${visibleScriptSql}
+            ) AS activity
+            WHERE "recentViews" > 0 OR "recentReactions" > 0
+            ORDER BY ("recentViews" + ${TRENDING_REACTION_WEIGHT} * "recentReactions") DESC, "createdAt" DESC
+            LIMIT ${limit};
+        `;
+        const scripts = await prisma.$queryRaw<any[]>(trendingQuery);
+
+        res.status(200).json({
+            window,
+            since,
+            data: await attachSeriesNavigation(serializeScripts(scripts.map(script => ({
+                ...script,
+                trendingScore: script.recentViews + TRENDING_REACTION_WEIGHT * script.recentReactions,
+            })))),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 // --- READ ONE ---
 export const getScriptById = async (req: Request, res: Response, next: NextFunction) => {
     const { id } = req.params;
     try {
-        const script = await prisma.scriptSnip.findUnique({
-            where: { id: String(id) },
+        const script = await prisma.scriptSnip.findFirst({
+            where: { id: String(id), ...liveScriptWhere }, // Trashed scripts are reported as not found
         });
-        if (!script) {
+        // Unapproved scripts are only shown to their creator (edit token) and admins, so they can check the review state
+        if (!script || (!isPubliclyVisible(script) && !canManageScript(req, script))) {
             // Send response first, then return
             res.status(404).json({ error: 'Script not found' });
             return; // Stop execution here
         }
+        // Count the read (creators and admins previewing unapproved scripts aren't readers)
+        if (isPubliclyVisible(script)) {
+            await recordViews([script.id], clientFingerprint(req));
+        }
         // This line is now only reached if script was found
-        res.status(200).json(script);
+        const [withNavigation] = await attachSeriesNavigation([serializeScript(script)]); // prev/next when part of a series
+        res.status(200).json(withNavigation);
     } catch (error) {
         next(error);
     }
@@ -179,15 +444,26 @@ export const getScriptById = async (req: Request, res: Response, next: NextFunct
 // --- READ RANDOM ---
 export const getRandomScript = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const count = await prisma.scriptSnip.count();
+        // Optional language filter (?lang=en)
+        const languages = parseLanguageFilter(req.query.lang);
+        const projection = parseProjection(req.query);
+        const where = languages.length > 0 ? { ...visibleScriptWhere, ...languageFilterWhere(languages) } : visibleScriptWhere;
+
+        const count = await prisma.scriptSnip.count({ where });
 
         if (count === 0) {
             // Use AppError for correct status code handling
             return next(new AppError('No scripts available to choose from.', 404));
         }
 
+        // Raw SQL so only the projected columns are read (the WHERE matches the count above)
         const randomIndex = Math.floor(Math.random() * count);
-        const randomScript = await prisma.scriptSnip.findFirst({ skip: randomIndex });
+        const conditions = [visibleScriptSql, ...(languages.length > 0 ? [languageFilterSql(languages)] : [])];
+        const [randomScript] = await prisma.$queryRaw<any[]>(Prisma.sql`
+            SELECT ${projectionSelectSql(projection)} FROM script_snips
+            WHERE ${Prisma.join(conditions, ' AND ')}
+            OFFSET ${randomIndex} LIMIT 1;
+        `);
 
         if (!randomScript) {
              console.error("Failed to find random script despite count > 0. Index:", randomIndex, "Count:", count);
@@ -195,7 +471,9 @@ export const getRandomScript = async (req: Request, res: Response, next: NextFun
              return next(new AppError('Failed to retrieve a random script.', 500)); // Or keep as new Error() if 500 is acceptable default
         }
 
-        res.status(200).json(randomScript);
+        const script = serializeScript(randomScript);
+        const [withNavigation] = includesField(projection, 'series') ? await attachSeriesNavigation([script]) : [script];
+        res.status(200).json(projectScript(withNavigation, projection));
     } catch (error) {
         next(error);
     }
@@ -228,8 +506,14 @@ export const getRandomScripts = async (req: Request, res: Response, next: NextFu
     const excludeIds = excludeIdsQuery ? excludeIdsQuery.split(',').map(id => id.trim()).filter(id => id) : [];
 
     try {
+        // Optional language filter (?lang=en)
+        const languages = parseLanguageFilter(req.query.lang);
+        const projection = parseProjection(req.query);
+
         // 3. Check total count (consider excluding IDs for available count if needed, but simpler to let DB handle)
-        const totalCount = await prisma.scriptSnip.count();
+        // The language filter counts, so a language nothing is written in is a 404 like for a single random script
+        const where = languages.length > 0 ? { ...visibleScriptWhere, ...languageFilterWhere(languages) } : visibleScriptWhere;
+        const totalCount = await prisma.scriptSnip.count({ where });
         if (totalCount === 0) {
             res.status(404).json({ message: 'No scripts available in the database.' });
             return
@@ -239,17 +523,21 @@ export const getRandomScripts = async (req: Request, res: Response, next: NextFu
         const limitCount = Math.min(count, totalCount); // We still ask for up to 'count' new ones
 
         // 4. Build the WHERE clause dynamically
-        let whereClause = Prisma.sql`WHERE 1=1`; // Start with true
+        const conditions: Prisma.Sql[] = [visibleScriptSql]; // Start with only visible (non-trashed) scripts
         if (excludeIds.length > 0) {
             // IMPORTANT: Ensure excludeIds are properly validated/sanitized if they come from user input
             // In this case, they originate from our own DB IDs, so less risk, but good practice.
             // Prisma.join handles escaping correctly for the IN clause.
-            whereClause = Prisma.sql`WHERE id NOT IN (${Prisma.join(excludeIds)})`;
+            conditions.push(Prisma.sql`id NOT IN (${Prisma.join(excludeIds)})`);
+        }
+        if (languages.length > 0) {
+            conditions.push(languageFilterSql(languages));
         }
+        const whereClause = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
 
         // 5. Use raw SQL for efficient random sampling with exclusion
         const randomScripts = await prisma.$queryRaw<any[]>`
-            SELECT * FROM script_snips
+            SELECT ${projectionSelectSql(projection)} FROM script_snips
             ${whereClause} -- Apply the exclusion clause
             ORDER BY RANDOM()
             LIMIT ${limitCount};
@@ -260,7 +548,8 @@ export const getRandomScripts = async (req: Request, res: Response, next: NextFu
         // The frontend already handles the empty state.
 
         // 7. Return the found scripts
-        res.status(200).json(randomScripts);
+        const scripts = serializeScripts(randomScripts);
+        res.status(200).json(projectScripts(includesField(projection, 'series') ? await attachSeriesNavigation(scripts) : scripts, projection));
 
     } catch (error) {
         console.error("Error in getRandomScripts:", error);
@@ -272,7 +561,8 @@ export const getRandomScripts = async (req: Request, res: Response, next: NextFu
 // --- READ MULTIPLE BY ID ---
 export const getScriptsByIds = async (req: Request, res: Response, next: NextFunction) => {
     // FIX: Read IDs from request body
-    const { ids } = req.body;
+    // trackViews: true counts the returned scripts as read (off by default, e.g. for favorites lists)
+    const { ids, trackViews } = req.body;
 
     // Validate input: Ensure 'ids' is a non-empty array of strings
     if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
@@ -280,16 +570,23 @@ export const getScriptsByIds = async (req: Request, res: Response, next: NextFun
     }
 
     try {
-        const scripts = await prisma.scriptSnip.findMany({
-            where: {
-                id: {
-                    in: ids,
-                },
-            },
-        });
+        // Optional projection in the query string (?fields=id,title or ?view=summary)
+        const projection = parseProjection(req.query);
+
+        // Raw SQL so only the projected columns are read.
+        // Trashed and hidden scripts are silently left out, like unknown IDs.
+        const scripts = await prisma.$queryRaw<any[]>(Prisma.sql`
+            SELECT ${projectionSelectSql(projection)} FROM script_snips
+            WHERE id IN (${Prisma.join(ids)}) AND ${visibleScriptSql};
+        `);
+
+        if (trackViews === true) {
+            await recordViews(scripts.map(script => script.id), clientFingerprint(req));
+        }
 
-        // Note: findMany doesn't error if some IDs aren't found, it just returns the ones it finds.
-        res.status(200).json(scripts);
+        // Note: IDs that aren't found are simply missing from the result.
+        const serialized = serializeScripts(scripts);
+        res.status(200).json(projectScripts(includesField(projection, 'series') ? await attachSeriesNavigation(serialized) : serialized, projection));
 
     } catch (error) {
         // Handle potential database errors or other unexpected issues
@@ -304,25 +601,77 @@ export const updateScript = async (req: Request, res: Response, next: NextFuncti
     const { id } = req.params;
     try {
         // Now updateScriptSchema is recognized
-        const validatedData = updateScriptSchema.parse(req.body);
+        // Screen the new content the same way as on create
+        const { content: { characterLinks, translationOf, ...validatedData }, flagged } = filterScriptContent(updateScriptSchema.parse(req.body));
+
+        // Update and record the new revision together, so history never misses a change
+        const updatedScript = await prisma.$transaction(async (tx) => {
+            const existingScript = await tx.scriptSnip.findUnique({ where: { id: String(id) } });
+            if (existingScript?.deletedAt) {
+                throw new AppError('Script not found', 404); // Trashed scripts must be restored before they can be edited
+            }
 
-        const updatedScript = await prisma.scriptSnip.update({
-            where: { id: String(id) },
-            data: validatedData,
+            // When the cast or lines change, check speakers against the resulting cast
+            // (the side that isn't being updated comes from the stored script)
+            if (existingScript && (validatedData.characters || validatedData.lines)) {
+                const consistency = applySpeakerConsistency(
+                    validatedData.characters ?? existingScript.characters,
+                    validatedData.lines ?? normalizeLines(existingScript.lines) as ScriptLine[],
+                    getSpeakerCheckMode()
+                );
+                if (consistency.changed) {
+                    validatedData.characters = consistency.characters;
+                    validatedData.lines = consistency.lines;
+                }
+            }
+
+            // New links replace the old ones; a changed cast drops links to names that are no longer in it
+            let relationChanges: Prisma.ScriptSnipUncheckedUpdateInput = {};
+            if (existingScript && characterLinks) {
+                const links = await resolveCharacterLinks(tx, characterLinks, validatedData.characters ?? existingScript.characters);
+                relationChanges = { characterLinks: { deleteMany: {}, create: links } };
+            } else if (existingScript && validatedData.characters) {
+                const removed = existingScript.characters.filter(name => !validatedData.characters!.includes(name));
+                if (removed.length > 0) {
+                    relationChanges = { characterLinks: { deleteMany: { castName: { in: removed } } } };
+                }
+            }
+
+            // Declaring (or dropping) the original this script translates; translations need a language
+            if (existingScript && translationOf !== undefined) {
+                if (translationOf && !(validatedData.language === undefined ? existingScript.language : validatedData.language)) {
+                    throw new ZodError([{ code: 'custom', path: ['language'], message: 'A translation needs a language' }]);
+                }
+                relationChanges.translationOfId = translationOf ? await resolveTranslationOf(tx, translationOf, existingScript.id) : null;
+            }
+
+            // A missing script is reported by the update (P2025 -> 404)
+            const updated = await tx.scriptSnip.update({
+                where: { id: String(id) },
+                data: {
+                    ...validatedData,
+                    ...relationChanges,
+                    ...(existingScript && moderationAfterEdit(existingScript.status, isAdminRequest(req), flagged)),
+                },
+            });
+            await recordScriptRevision(tx, updated, existingScript);
+            return updated;
         });
-        res.status(200).json(updatedScript);
+        res.status(200).json(serializeScript(updatedScript));
 
     } catch (error) {
         next(error);
     }
 };
 
-// --- DELETE ---
+// --- DELETE (soft delete: moves the script to the trash) ---
 export const deleteScript = async (req: Request, res: Response, next: NextFunction) => {
     const { id } = req.params;
     try {
-        await prisma.scriptSnip.delete({
-            where: { id: String(id) },
+        // Scripts already in the trash don't match and are reported as not found (P2025 -> 404)
+        await prisma.scriptSnip.update({
+            where: { id: String(id), deletedAt: null },
+            data: { deletedAt: new Date() },
         });
         res.status(204).send();
     } catch (error) {
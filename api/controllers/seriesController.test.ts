@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as seriesController from './seriesController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    series: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+const series = (scriptIds: string[], extra: any = {}) => ({
+  id: 'arc', title: 'The Long Voyage', description: null, editTokenHash: 'hash',
+  createdAt: new Date(), updatedAt: new Date(),
+  episodes: scriptIds.map((scriptId, position) => ({ scriptId, position })),
+  ...extra,
+});
+
+const script = (id: string) => ({ id, title: id, characters: ['A'], lines: [] });
+
+describe('Series Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 'arc' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+  });
+
+  describe('createSeries', () => {
+    it('should store the hashed edit token and return the token once', async () => {
+      mockRequest.body = { title: ' The Long Voyage ', description: 'A crew far from home' };
+      vi.mocked(prisma.series.create).mockImplementation((async ({ data }: any) => series([], data)) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+
+      await seriesController.createSeries(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.series.create).mock.calls[0][0] as any;
+      expect(data.title).toBe('The Long Voyage');
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(data.editTokenHash).toBe(hashToken(payload.editToken));
+      expect(payload).not.toHaveProperty('editTokenHash');
+      expect(payload.episodes).toEqual([]);
+    });
+  });
+
+  describe('getSeries', () => {
+    it('should return visible episodes in series order', async () => {
+      vi.mocked(prisma.series.findUnique).mockResolvedValue(series(['s2', 'hidden', 's1']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([script('s1'), script('s2')] as any);
+
+      await seriesController.getSeries(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.scriptSnip.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['s2', 'hidden', 's1'] }, ...visibleScriptWhere },
+      });
+      const payload = vi.mocked(mockResponse.json!).mock.calls[0][0] as any;
+      expect(payload.episodes.map((episode: any) => episode.id)).toEqual(['s2', 's1']);
+    });
+
+    it('should return 404 for an unknown series', async () => {
+      vi.mocked(prisma.series.findUnique).mockResolvedValue(null);
+
+      await seriesController.getSeries(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    });
+  });
+
+  describe('addSeriesEpisode', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.series.findUnique).mockResolvedValue(series(['s1']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+    });
+
+    it('should append a script whose edit token is supplied', async () => {
+      mockRequest.body = { scriptId: 's2', scriptEditToken: 'script-token' };
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ editTokenHash: hashToken('script-token'), seriesEpisode: null } as any);
+      vi.mocked(prisma.series.update).mockResolvedValue(series(['s1', 's2']) as any);
+
+      await seriesController.addSeriesEpisode(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(prisma.series.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { episodes: { create: { scriptId: 's2', position: 1 } } },
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse scripts the requester cannot manage', async () => {
+      mockRequest.body = { scriptId: 's2', scriptEditToken: 'someone-elses-token' };
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ editTokenHash: hashToken('script-token'), seriesEpisode: null } as any);
+
+      await seriesController.addSeriesEpisode(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(403);
+      expect(prisma.series.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the script already belongs to a series', async () => {
+      mockRequest.body = { scriptId: 's2', scriptEditToken: 'script-token' };
+      vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({
+        editTokenHash: hashToken('script-token'),
+        seriesEpisode: { seriesId: 'other-arc' },
+      } as any);
+
+      await seriesController.addSeriesEpisode(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const error = vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError;
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toBe('Script is already part of another series');
+    });
+  });
+
+  describe('reorderSeriesEpisodes', () => {
+    it('should move listed episodes to the front and keep the rest in order', async () => {
+      mockRequest.body = { scriptIds: ['s3', 's1'] };
+      vi.mocked(prisma.series.findUnique).mockResolvedValue(series(['s1', 's2', 's3']) as any);
+      vi.mocked(prisma.series.update).mockResolvedValue(series(['s3', 's1', 's2']) as any);
+      vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([]);
+
+      await seriesController.reorderSeriesEpisodes(mockRequest as Request, mockResponse as Response, mockNext);
+
+      const { data } = vi.mocked(prisma.series.update).mock.calls[0][0] as any;
+      expect(data.episodes.updateMany).toEqual([
+        { where: { scriptId: 's3' }, data: { position: 0 } },
+        { where: { scriptId: 's1' }, data: { position: 1 } },
+        { where: { scriptId: 's2' }, data: { position: 2 } },
+      ]);
+    });
+
+    it('should reject scripts that are not in the series', async () => {
+      mockRequest.body = { scriptIds: ['nope'] };
+      vi.mocked(prisma.series.findUnique).mockResolvedValue(series(['s1']) as any);
+
+      await seriesController.reorderSeriesEpisodes(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(400);
+      expect(prisma.series.update).not.toHaveBeenCalled();
+    });
+  });
+});
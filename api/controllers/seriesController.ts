@@ -0,0 +1,196 @@
+import { Request, Response, NextFunction } from 'express';
+import { Series } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { isAdminRequest } from '../middleware/adminAuth';
+import {
+    createSeriesSchema,
+    updateSeriesSchema,
+    addSeriesEpisodeSchema,
+    reorderSeriesSchema,
+    MAX_SERIES_EPISODES,
+} from '../schemas/seriesSchema';
+import { serializeScripts } from '../utils/scriptSerializer';
+import { liveScriptWhere, visibleScriptWhere } from '../utils/visibility';
+import { generateToken, hashToken, tokenMatchesHash } from '../utils/tokens';
+
+// Episodes are always loaded in series order
+const withEpisodes = {
+    episodes: { orderBy: { position: 'asc' as const }, select: { scriptId: true, position: true } },
+};
+
+type SeriesWithEpisodes = Series & { episodes: { scriptId: string; position: number }[] };
+
+const findSeries = async (id: string): Promise<SeriesWithEpisodes> => {
+    const series = await prisma.series.findUnique({ where: { id }, include: withEpisodes });
+    if (!series) {
+        throw new AppError('Series not found', 404);
+    }
+    return series;
+};
+
+// Public view of a series with its episodes in order.
+// Episodes that were deleted, hidden or are awaiting moderation are left out until they're visible again.
+const seriesView = async (series: SeriesWithEpisodes) => {
+    const scripts = await prisma.scriptSnip.findMany({
+        where: { id: { in: series.episodes.map(episode => episode.scriptId) }, ...visibleScriptWhere },
+    });
+    const scriptsById = new Map(scripts.map(script => [script.id, script]));
+    return {
+        id: series.id,
+        title: series.title,
+        description: series.description,
+        createdAt: series.createdAt,
+        updatedAt: series.updatedAt,
+        episodes: serializeScripts(series.episodes
+            .filter(episode => scriptsById.has(episode.scriptId))
+            .map(episode => scriptsById.get(episode.scriptId)!)),
+    };
+};
+
+// --- CREATE ---
+export const createSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { title, description } = createSeriesSchema.parse(req.body);
+
+        // The edit token is only stored hashed, this response is the one time the creator sees it
+        const editToken = generateToken();
+        const series = await prisma.series.create({
+            data: { title, description, editTokenHash: hashToken(editToken) },
+            include: withEpisodes,
+        });
+
+        res.status(201).json({ ...(await seriesView(series)), editToken });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- READ (public) ---
+export const getSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const series = await findSeries(String(req.params.id));
+        res.status(200).json(await seriesView(series));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- UPDATE ---
+export const updateSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const validatedData = updateSeriesSchema.parse(req.body);
+        // A missing series is reported by the update (P2025 -> 404)
+        const series = await prisma.series.update({
+            where: { id: String(req.params.id) },
+            data: validatedData,
+            include: withEpisodes,
+        });
+        res.status(200).json(await seriesView(series));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- DELETE ---
+export const deleteSeries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        // Episodes are removed by ON DELETE CASCADE, the scripts themselves are untouched
+        await prisma.series.delete({ where: { id: String(req.params.id) } });
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- APPEND AN EPISODE ---
+// Expects { scriptId, scriptEditToken }: a script can only be added by someone who can manage it,
+// so nobody can pull another writer's script into their series.
+export const addSeriesEpisode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { scriptId, scriptEditToken } = addSeriesEpisodeSchema.parse(req.body);
+        const series = await findSeries(String(req.params.id));
+
+        if (series.episodes.length >= MAX_SERIES_EPISODES) {
+            return next(new AppError(`A series can hold at most ${MAX_SERIES_EPISODES} episodes`, 400));
+        }
+        const script = await prisma.scriptSnip.findFirst({
+            where: { id: scriptId, ...liveScriptWhere },
+            select: { editTokenHash: true, seriesEpisode: { select: { seriesId: true } } },
+        });
+        if (!script) {
+            return next(new AppError('Script not found', 404));
+        }
+        if (!isAdminRequest(req) && !tokenMatchesHash(scriptEditToken, script.editTokenHash)) {
+            return next(new AppError('Adding a script to a series requires the script\'s edit token (scriptEditToken).', 403));
+        }
+        if (script.seriesEpisode) {
+            const where = script.seriesEpisode.seriesId === series.id ? 'this' : 'another';
+            return next(new AppError(`Script is already part of ${where} series`, 409));
+        }
+
+        const lastPosition = series.episodes.length > 0 ? series.episodes[series.episodes.length - 1].position : -1;
+        const updated = await prisma.series.update({
+            where: { id: series.id },
+            data: { episodes: { create: { scriptId, position: lastPosition + 1 } } },
+            include: withEpisodes,
+        });
+        res.status(201).json(await seriesView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REMOVE AN EPISODE ---
+export const removeSeriesEpisode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const scriptId = String(req.params.scriptId);
+        const series = await findSeries(String(req.params.id));
+        if (!series.episodes.some(episode => episode.scriptId === scriptId)) {
+            return next(new AppError('Script is not in this series', 404));
+        }
+
+        const updated = await prisma.series.update({
+            where: { id: series.id },
+            data: { episodes: { deleteMany: { scriptId } } },
+            include: withEpisodes,
+        });
+        res.status(200).json(await seriesView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
+
+// --- REORDER ---
+// Expects { scriptIds: [...] }: the listed episodes move to the front in that order,
+// episodes that aren't listed (e.g. currently hidden ones) keep their relative order after them
+export const reorderSeriesEpisodes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { scriptIds } = reorderSeriesSchema.parse(req.body);
+        const series = await findSeries(String(req.params.id));
+
+        const currentIds = new Set(series.episodes.map(episode => episode.scriptId));
+        const unknownIds = scriptIds.filter(id => !currentIds.has(id));
+        if (unknownIds.length > 0) {
+            return next(new AppError(`Scripts not in this series: ${unknownIds.join(', ')}`, 400));
+        }
+        if (new Set(scriptIds).size !== scriptIds.length) {
+            return next(new AppError('Each script may only be listed once', 400));
+        }
+
+        const listed = new Set(scriptIds);
+        const newOrder = [...scriptIds, ...series.episodes.map(episode => episode.scriptId).filter(id => !listed.has(id))];
+        const updated = await prisma.series.update({
+            where: { id: series.id },
+            data: {
+                episodes: {
+                    updateMany: newOrder.map((scriptId, position) => ({ where: { scriptId }, data: { position } })),
+                },
+            },
+            include: withEpisodes,
+        });
+        res.status(200).json(await seriesView(updated));
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as similarController from './similarController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from '../utils/tokens';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+const source = { id: 's1', status: 'approved', hiddenAt: null, editTokenHash: hashToken('owner-token') };
+
+describe('Similar Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 's1' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+  });
+
+  it('should rank other visible scripts by similarity, leaving out excluded IDs', async () => {
+    mockRequest.query = { limit: '2', excludeIds: 's7, s9' };
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue(source as any);
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([
+      { id: 's2', title: 'Bridge Crisis II', lines: [], editTokenHash: 'hash', similarity: 0.61 },
+    ]);
+
+    await similarController.getSimilarScripts(mockRequest as Request, mockResponse as Response, mockNext);
+
+    const query = vi.mocked(prisma.$queryRaw).mock.calls[0][0] as any;
+    expect(query.sql).toContain('similarity(COALESCE(script_snips.title');
+    expect(query.sql).toContain(`"deletedAt" IS NULL AND "status" = 'approved' AND "hiddenAt" IS NULL`);
+    expect(query.sql).toContain('script_snips.id NOT IN (?,?)');
+    expect(query.values).toEqual(expect.arrayContaining(['s1', 's7', 's9', 2]));
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith([{ id: 's2', title: 'Bridge Crisis II', lines: [], similarity: 0.61 }]);
+  });
+
+  it('should return 404 for a script the requester may not see', async () => {
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({ ...source, status: 'pending' } as any);
+
+    await similarController.getSimilarScripts(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should reject a limit outside 1-20', async () => {
+    mockRequest.query = { limit: '50' };
+
+    await similarController.getSimilarScripts(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(400);
+    expect(prisma.scriptSnip.findFirst).not.toHaveBeenCalled();
+  });
+});
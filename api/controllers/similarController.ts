@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, ScriptSnip } from '@prisma/client';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { canManageScript } from '../middleware/editAuth';
+import { serializeScripts } from '../utils/scriptSerializer';
+import { scriptColumnsSql } from '../utils/scriptColumns';
+import { dialogueTextSql } from '../utils/scriptLines';
+import { liveScriptWhere, visibleScriptSql, isPubliclyVisible } from '../utils/visibility';
+
+const DEFAULT_SIMILAR_LIMIT = 5;
+const MAX_SIMILAR_LIMIT = 20;
+
+// How much each part of a script counts towards its similarity score (they add up to 1)
+export const SIMILARITY_WEIGHTS = { title: 0.4, cast: 0.2, dialogue: 0.4 };
+
+// --- SIMILAR ("more like this") ---
+// GET /api/scripts/:id/similar?limit=N&excludeIds=a,b - Other visible scripts ranked by trigram similarity of
+// title, cast and dialogue to this one. Each result carries its 'similarity' score (0-1).
+export const getSimilarScripts = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+
+    const limit = parseInt(req.query.limit as string || String(DEFAULT_SIMILAR_LIMIT), 10);
+    if (isNaN(limit) || limit < 1 || limit > MAX_SIMILAR_LIMIT) {
+        return next(new AppError(`Invalid limit parameter. Must be an integer between 1 and ${MAX_SIMILAR_LIMIT}.`, 400));
+    }
+
+    // Same convention as /random-multiple: comma-separated IDs the client has already shown
+    const excludeIdsQuery = req.query.excludeIds as string;
+    const excludeIds = excludeIdsQuery ? excludeIdsQuery.split(',').map(excludeId => excludeId.trim()).filter(excludeId => excludeId) : [];
+
+    try {
+        const script = await prisma.scriptSnip.findFirst({
+            where: { id, ...liveScriptWhere },
+            select: { id: true, status: true, hiddenAt: true, editTokenHash: true },
+        });
+        // Unapproved scripts are only shown to their creator (edit token) and admins
+        if (!script || (!isPubliclyVisible(script) && !canManageScript(req, script))) {
+            return next(new AppError('Script not found', 404));
+        }
+
+        const conditions: Prisma.Sql[] = [visibleScriptSql, Prisma.sql`script_snips.id <> ${id}`];
+        if (excludeIds.length > 0) {
+            conditions.push(Prisma.sql`script_snips.id NOT IN (${Prisma.join(excludeIds)})`);
+        }
+
+        const query = Prisma.sql`
+            WITH source AS (
+                SELECT COALESCE(title, '') AS source_title,
+                    array_to_string(characters, ' ') AS source_cast,
+                    ${dialogueTextSql} AS source_dialogue
+                FROM script_snips WHERE id = ${id}
+            )
+            SELECT * FROM (
+                SELECT ${scriptColumnsSql()}, round((
+                    ${SIMILARITY_WEIGHTS.title} * similarity(COALESCE(script_snips.title, ''), source_title) +
+                    ${SIMILARITY_WEIGHTS.cast} * similarity(array_to_string(script_snips.characters, ' '), source_cast) +
+                    ${SIMILARITY_WEIGHTS.dialogue} * similarity(${dialogueTextSql}, source_dialogue)
+                )::numeric, 4)::float AS similarity
+                FROM script_snips, source
+                WHERE ${Prisma.join(conditions, ' AND ')}
+            ) AS ranked
+            WHERE similarity > 0
+            ORDER BY similarity DESC, "createdAt" DESC
+            LIMIT ${limit};
+        `;
+        const similar = await prisma.$queryRaw<(ScriptSnip & { similarity: number })[]>(query);
+
+        res.status(200).json(serializeScripts(similar));
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import * as translationController from './translationController';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { visibleScriptWhere } from '../utils/visibility';
+
+// Mock the prisma client
+vi.mock('../db', () => ({
+  default: {
+    scriptSnip: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+describe('Translation Controller Unit Tests', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    mockRequest = { params: { id: 'pt-version' }, query: {}, body: {}, get: vi.fn() as any };
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn(), send: vi.fn() };
+    mockNext = vi.fn();
+  });
+
+  it('should list the original and every visible translation from any member of the group', async () => {
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({
+      id: 'pt-version', translationOfId: 'original', status: 'approved', hiddenAt: null, editTokenHash: null,
+    } as any);
+    const createdAt = new Date();
+    vi.mocked(prisma.scriptSnip.findMany).mockResolvedValue([
+      { id: 'original', title: 'Bridge Crisis', language: 'en', createdAt },
+      { id: 'pt-version', title: 'Crise na Ponte', language: 'pt-BR', createdAt },
+    ] as any);
+
+    await translationController.getScriptTranslations(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(vi.mocked(prisma.scriptSnip.findMany).mock.calls[0][0]).toMatchObject({
+      where: { OR: [{ id: 'original' }, { translationOfId: 'original' }], ...visibleScriptWhere },
+    });
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      originalId: 'original',
+      versions: [
+        { id: 'original', title: 'Bridge Crisis', language: 'en', createdAt, isOriginal: true },
+        { id: 'pt-version', title: 'Crise na Ponte', language: 'pt-BR', createdAt, isOriginal: false },
+      ],
+    });
+  });
+
+  it('should return 404 for a script that is not publicly visible', async () => {
+    vi.mocked(prisma.scriptSnip.findFirst).mockResolvedValue({
+      id: 'pt-version', translationOfId: null, status: 'pending', hiddenAt: null, editTokenHash: 'hash',
+    } as any);
+
+    await translationController.getScriptTranslations(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect((vi.mocked(mockNext).mock.calls[0][0] as unknown as AppError).statusCode).toBe(404);
+    expect(prisma.scriptSnip.findMany).not.toHaveBeenCalled();
+  });
+});
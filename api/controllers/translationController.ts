@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { canManageScript } from '../middleware/editAuth';
+import { liveScriptWhere, visibleScriptWhere, isPubliclyVisible } from '../utils/visibility';
+
+// --- LANGUAGE VERSIONS ---
+// GET /api/scripts/:id/translations - Every visible language version of a script: its original and all translations
+export const getScriptTranslations = async (req: Request, res: Response, next: NextFunction) => {
+    const id = String(req.params.id);
+    try {
+        const script = await prisma.scriptSnip.findFirst({
+            where: { id, ...liveScriptWhere },
+            select: { id: true, translationOfId: true, status: true, hiddenAt: true, editTokenHash: true },
+        });
+        // Unapproved scripts are only shown to their creator (edit token) and admins
+        if (!script || (!isPubliclyVisible(script) && !canManageScript(req, script))) {
+            return next(new AppError('Script not found', 404));
+        }
+
+        // Translations always point at the original, so one level covers the whole group
+        const originalId = script.translationOfId ?? script.id;
+        const versions = await prisma.scriptSnip.findMany({
+            where: { OR: [{ id: originalId }, { translationOfId: originalId }], ...visibleScriptWhere },
+            orderBy: [{ language: 'asc' }, { createdAt: 'asc' }],
+            select: { id: true, title: true, language: true, createdAt: true },
+        });
+
+        res.status(200).json({
+            originalId,
+            versions: versions.map(version => ({ ...version, isOriginal: version.id === originalId })),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,11 +1,19 @@
 import express, { Express, Request, Response, NextFunction } from 'express'; // Add NextFunction
 import scriptRoutes from './routes/scriptRoutes';
+import adminRoutes from './routes/adminRoutes';
+import collectionRoutes from './routes/collectionRoutes';
+import seriesRoutes from './routes/seriesRoutes';
+import characterRoutes from './routes/characterRoutes';
 import { errorHandler } from './middleware/errorHandler';
 import cors from 'cors';
+import { getTrustProxy } from './config';
 
 const app: Express = express();
 const port = process.env.PORT;
 
+// req.ip (client fingerprints, rate limits) comes from X-Forwarded-For, as set by the proxy in front of the app
+app.set('trust proxy', getTrustProxy());
+
 // --- CORS Configuration ---
 const allowedOrigins = [
     'http://localhost:5173', 'https://scriptsnips.vercel.app'
@@ -42,6 +50,18 @@ app.get('/test', (req: Request, res: Response) => {
 // --- Mount Script Routes ---
 app.use('/api/scripts', scriptRoutes);
 
+// --- Mount Collection Routes ---
+app.use('/api/collections', collectionRoutes);
+
+// --- Mount Series Routes ---
+app.use('/api/series', seriesRoutes);
+
+// --- Mount Character Registry Routes ---
+app.use('/api/characters', characterRoutes);
+
+// --- Mount Admin Routes (protected by the admin key) ---
+app.use('/api/admin', adminRoutes);
+
 // --- Central Error Handler ---
 app.use(errorHandler);
 
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import { requireAdmin, requireAdminOrCron, isAdminRequest, isCronRequest } from './adminAuth';
+import { AppError } from './errorHandler';
+
+// Build a request whose get() returns the given headers (case-insensitive)
+const requestWithHeaders = (headers: Record<string, string>) => ({
+    get: (name: string) => headers[name.toLowerCase()],
+}) as unknown as Request;
+
+describe('Admin Auth Middleware', () => {
+    const mockResponse = {} as Response;
+    let mockNext: NextFunction;
+
+    beforeEach(() => {
+        mockNext = vi.fn();
+        vi.stubEnv('ADMIN_API_KEY', 'secret-admin-key');
+        vi.stubEnv('CRON_SECRET', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should call next() without an error for a valid admin key', () => {
+        requireAdmin(requestWithHeaders({ 'x-admin-key': 'secret-admin-key' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should respond 401 when no key is provided', () => {
+        requireAdmin(requestWithHeaders({}), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(401);
+    });
+
+    it('should respond 403 for a wrong key', () => {
+        requireAdmin(requestWithHeaders({ 'x-admin-key': 'guess' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+    });
+
+    it('should respond 503 when admin access is not configured', () => {
+        vi.stubEnv('ADMIN_API_KEY', '');
+        requireAdmin(requestWithHeaders({ 'x-admin-key': 'anything' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(503);
+    });
+
+    it('should not treat the cron secret as an admin key', () => {
+        vi.stubEnv('CRON_SECRET', 'cron-secret');
+        expect(isAdminRequest(requestWithHeaders({ authorization: 'Bearer cron-secret' }))).toBe(false);
+        requireAdmin(requestWithHeaders({ authorization: 'Bearer cron-secret' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(401);
+    });
+
+    describe('requireAdminOrCron', () => {
+        beforeEach(() => {
+            vi.stubEnv('CRON_SECRET', 'cron-secret');
+        });
+
+        it('should accept the cron secret as a bearer token', () => {
+            expect(isCronRequest(requestWithHeaders({ authorization: 'Bearer cron-secret' }))).toBe(true);
+            requireAdminOrCron(requestWithHeaders({ authorization: 'Bearer cron-secret' }), mockResponse, mockNext);
+            expect(mockNext).toHaveBeenCalledWith();
+        });
+
+        it('should respond 403 for a wrong cron secret', () => {
+            requireAdminOrCron(requestWithHeaders({ authorization: 'Bearer nope' }), mockResponse, mockNext);
+            expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+        });
+
+        it('should fall back to the admin key', () => {
+            requireAdminOrCron(requestWithHeaders({ 'x-admin-key': 'secret-admin-key' }), mockResponse, mockNext);
+            expect(mockNext).toHaveBeenCalledWith();
+        });
+    });
+});
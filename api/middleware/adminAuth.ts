@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { getAdminApiKey, getCronSecret } from '../config';
+import { safeEqual } from '../utils/tokens';
+
+// True if the request carries a valid admin key (X-Admin-Key header)
+export const isAdminRequest = (req: Request): boolean => {
+    const adminKey = getAdminApiKey();
+    const providedKey = req.get('x-admin-key');
+    return Boolean(adminKey && providedKey && safeEqual(providedKey, adminKey));
+};
+
+// True if the request carries the cron secret Vercel Cron sends as a bearer token
+export const isCronRequest = (req: Request): boolean => {
+    const cronSecret = getCronSecret();
+    const authorization = req.get('authorization');
+    return Boolean(cronSecret && authorization && safeEqual(authorization, `Bearer ${cronSecret}`));
+};
+
+// Protect admin-only routes
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!getAdminApiKey()) {
+        return next(new AppError('Admin access is not configured on this server.', 503));
+    }
+    if (!req.get('x-admin-key')) {
+        return next(new AppError('Admin key required.', 401));
+    }
+    if (!isAdminRequest(req)) {
+        return next(new AppError('Invalid admin key.', 403));
+    }
+    next();
+};
+
+// Protect scheduled jobs: Vercel Cron may call them with the cron secret, anyone else needs the admin key
+export const requireAdminOrCron = (req: Request, res: Response, next: NextFunction) => {
+    if (getCronSecret() && req.get('authorization')) {
+        return isCronRequest(req) ? next() : next(new AppError('Invalid cron secret.', 403));
+    }
+    requireAdmin(req, res, next);
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import { requireEditToken, requireCollectionToken, requireSeriesToken, requireCharacterToken } from './editAuth';
+import { AppError } from './errorHandler';
+import prisma from '../db';
+import { hashToken } from '../utils/tokens';
+
+vi.mock('../db', () => ({
+    default: {
+        scriptSnip: {
+            findUnique: vi.fn(),
+        },
+        collection: {
+            findUnique: vi.fn(),
+        },
+        series: {
+            findUnique: vi.fn(),
+        },
+        character: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+// Build a request for script :id whose get() returns the given headers (case-insensitive)
+const requestFor = (headers: Record<string, string>) => ({
+    params: { id: 'script-1' },
+    get: (name: string) => headers[name.toLowerCase()],
+}) as unknown as Request;
+
+describe('Edit Token Middleware', () => {
+    const mockResponse = {} as Response;
+    let mockNext: NextFunction;
+
+    beforeEach(() => {
+        vi.resetAllMocks();
+        mockNext = vi.fn();
+        vi.stubEnv('ADMIN_API_KEY', 'secret-admin-key');
+        vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ editTokenHash: hashToken('creator-token') } as any);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should allow the creator with the matching token', async () => {
+        await requireEditToken(requestFor({ 'x-edit-token': 'creator-token' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should respond 403 when the token is missing', async () => {
+        await requireEditToken(requestFor({}), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith(expect.any(AppError));
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+    });
+
+    it('should respond 403 when the token is wrong', async () => {
+        await requireEditToken(requestFor({ 'x-edit-token': 'guess' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+    });
+
+    it('should respond 403 for scripts created before edit tokens existed', async () => {
+        vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue({ editTokenHash: null } as any);
+        await requireEditToken(requestFor({ 'x-edit-token': 'anything' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+    });
+
+    it('should let the admin key manage any script', async () => {
+        await requireEditToken(requestFor({ 'x-admin-key': 'secret-admin-key' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should pass unknown IDs through so the handler can respond 404', async () => {
+        vi.mocked(prisma.scriptSnip.findUnique).mockResolvedValue(null);
+        await requireEditToken(requestFor({}), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should check collections against their own token', async () => {
+        vi.mocked(prisma.collection.findUnique).mockResolvedValue({ editTokenHash: hashToken('collection-token') } as any);
+
+        await requireCollectionToken(requestFor({ 'x-edit-token': 'creator-token' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+
+        await requireCollectionToken(requestFor({ 'x-edit-token': 'collection-token' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenLastCalledWith();
+    });
+
+    it('should check series against their own token', async () => {
+        vi.mocked(prisma.series.findUnique).mockResolvedValue({ editTokenHash: hashToken('series-token') } as any);
+
+        await requireSeriesToken(requestFor({ 'x-edit-token': 'creator-token' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+
+        await requireSeriesToken(requestFor({ 'x-edit-token': 'series-token' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenLastCalledWith();
+    });
+
+    it('should check registry characters against their own token', async () => {
+        vi.mocked(prisma.character.findUnique).mockResolvedValue({ editTokenHash: hashToken('character-token') } as any);
+
+        await requireCharacterToken(requestFor({ 'x-edit-token': 'creator-token' }), mockResponse, mockNext);
+        expect((mockNext as any).mock.calls[0][0].statusCode).toBe(403);
+
+        await requireCharacterToken(requestFor({ 'x-edit-token': 'character-token' }), mockResponse, mockNext);
+        expect(mockNext).toHaveBeenLastCalledWith();
+    });
+});
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import { AppError } from './errorHandler';
+import { isAdminRequest } from './adminAuth';
+import { tokenMatchesHash } from '../utils/tokens';
+
+// Header carrying the secret edit token returned when a script (or collection, series or character) was created
+export const EDIT_TOKEN_HEADER = 'x-edit-token';
+
+// True if the request may manage the resource: a valid edit token, or the admin key
+export const canManageScript = (req: Request, script: { editTokenHash: string | null }): boolean =>
+    isAdminRequest(req) || tokenMatchesHash(req.get(EDIT_TOKEN_HEADER), script.editTokenHash);
+
+// Build a middleware that only lets the creator (holding the edit token) or an admin through for the resource in :id.
+// Unknown IDs are passed through so the handler reports them as not found.
+const requireOwnerToken = (
+    resourceName: string,
+    findOwner: (id: string) => Promise<{ editTokenHash: string | null } | null>
+) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const resource = await findOwner(String(req.params.id));
+        if (!resource || isAdminRequest(req)) {
+            return next();
+        }
+        if (!req.get(EDIT_TOKEN_HEADER)) {
+            return next(new AppError('Edit token required. Send the token returned on creation in the X-Edit-Token header.', 403));
+        }
+        if (!canManageScript(req, resource)) {
+            return next(new AppError(`Invalid edit token for this ${resourceName}.`, 403));
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Only the creator or an admin may modify the script in :id
+export const requireEditToken = requireOwnerToken('script', id =>
+    prisma.scriptSnip.findUnique({ where: { id }, select: { editTokenHash: true } }));
+
+// Only the creator or an admin may see or modify the collection in :id
+export const requireCollectionToken = requireOwnerToken('collection', id =>
+    prisma.collection.findUnique({ where: { id }, select: { editTokenHash: true } }));
+
+// Only the creator or an admin may modify the series in :id
+export const requireSeriesToken = requireOwnerToken('series', id =>
+    prisma.series.findUnique({ where: { id }, select: { editTokenHash: true } }));
+
+// Only the creator or an admin may modify the registry character in :id
+export const requireCharacterToken = requireOwnerToken('character', id =>
+    prisma.character.findUnique({ where: { id }, select: { editTokenHash: true } }));
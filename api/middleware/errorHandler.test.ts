@@ -32,6 +32,15 @@ describe('Error Handler Middleware', () => {
         expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should include AppError details when provided', () => {
+        const details = [{ path: 'title', rule: 'email', message: 'Email addresses are not allowed' }];
+        const error = new AppError('Content rejected', 422, details);
+        errorHandler(error, mockRequest, mockResponse, mockNext);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(422);
+        expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Content rejected', details });
+    });
+
     it('should handle ZodError', () => {
         // Create a mock ZodError
         const zodIssues: ZodIssue[] = [
@@ -66,18 +75,29 @@ describe('Error Handler Middleware', () => {
         expect(mockNext).not.toHaveBeenCalled();
     });
 
-    it('should handle other PrismaClientKnownRequestError (default case)', () => {
+    it('should handle PrismaClientKnownRequestError (P2002 - Unique constraint)', () => {
         const error = new Prisma.PrismaClientKnownRequestError(
             'Unique constraint failed',
             { code: 'P2002', clientVersion: 'mock', meta: { target: ['email'] } } // Example meta
         );
         errorHandler(error, mockRequest, mockResponse, mockNext);
 
+        expect(mockResponse.status).toHaveBeenCalledWith(409);
+        expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Unique constraint violation', details: ['email'] });
+    });
+
+    it('should handle other PrismaClientKnownRequestError (default case)', () => {
+        const error = new Prisma.PrismaClientKnownRequestError(
+            'Foreign key constraint failed',
+            { code: 'P2003', clientVersion: 'mock', meta: { field_name: 'scriptId' } } // Example meta
+        );
+        errorHandler(error, mockRequest, mockResponse, mockNext);
+
         expect(console.error).toHaveBeenCalledWith("Central Error Handler Caught:", error);
         expect(mockResponse.status).toHaveBeenCalledWith(500); // Default status code
         expect(mockResponse.json).toHaveBeenCalledWith({
             error: 'Database request failed',
-            details: 'Unique constraint failed' // Uses err.message
+            details: 'Foreign key constraint failed' // Uses err.message
         });
         expect(mockNext).not.toHaveBeenCalled();
     });
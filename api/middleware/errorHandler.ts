@@ -11,9 +11,11 @@ const formatZodError = (error: ZodError) => {
 // Define AppError *before* errorHandler uses it
 export class AppError extends Error {
     statusCode: number;
-    constructor(message: string, statusCode: number) {
+    details?: any; // Optional structured details, returned alongside the message
+    constructor(message: string, statusCode: number, details?: any) {
         super(message);
         this.statusCode = statusCode;
+        this.details = details;
         // Ensure the name of this error is the same as the class name
         this.name = this.constructor.name;
         // Capture the stack trace
@@ -46,11 +48,11 @@ export const errorHandler = (err: any, req: Request, res: Response, next: NextFu
                 statusCode = 404;
                 responseBody = { error: 'Resource not found' };
                 break;
+            case 'P2002': // Unique constraint violation
+                statusCode = 409; // Conflict
+                responseBody = { error: 'Unique constraint violation', details: err.meta?.target };
+                break;
             // Add other Prisma error codes as needed
-            // case 'P2002': // Unique constraint violation
-            //     statusCode = 409; // Conflict
-            //     responseBody = { error: 'Unique constraint violation', details: err.meta?.target };
-            //     break;
             default:
                 statusCode = 500; // Or maybe 400 depending on the Prisma error
                 responseBody = { error: 'Database request failed', details: err.message };
@@ -59,6 +61,9 @@ export const errorHandler = (err: any, req: Request, res: Response, next: NextFu
     } else if (err instanceof AppError) { // Check for AppError first
         statusCode = err.statusCode;
         responseBody = { error: err.message };
+        if (err.details !== undefined) {
+            responseBody.details = err.details;
+        }
     } else if (err instanceof Error) { // Handle generic Error last
         // Generic Error doesn't have statusCode, default to 500
         responseBody = { error: err.message || 'An error occurred' };
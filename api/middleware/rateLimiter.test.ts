@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createScriptLimiter } from './rateLimiter'; // Adjust path if needed
+import { createScriptLimiter, reportLimiter, createCollectionLimiter, reactionLimiter, commentLimiter, createSeriesLimiter, createCharacterLimiter } from './rateLimiter'; // Adjust path if needed
 import type { RateLimitRequestHandler } from 'express-rate-limit';
 
 describe('Rate Limiter Middleware', () => {
@@ -11,6 +11,15 @@ describe('Rate Limiter Middleware', () => {
         expect(typeof createScriptLimiter).toBe('function');
     });
 
+    it('should export the other limiters as functions', () => {
+        expect(typeof reportLimiter).toBe('function');
+        expect(typeof createCollectionLimiter).toBe('function');
+        expect(typeof reactionLimiter).toBe('function');
+        expect(typeof commentLimiter).toBe('function');
+        expect(typeof createSeriesLimiter).toBe('function');
+        expect(typeof createCharacterLimiter).toBe('function');
+    });
+
     // Optional: Add more tests if you create more complex configurations or custom key generators
     // it('should have specific options set (if checkable)', () => {
     //   // Note: express-rate-limit doesn't easily expose its config after creation.
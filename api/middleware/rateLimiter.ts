@@ -12,5 +12,59 @@ export const createScriptLimiter = rateLimit({
     // }
 });
 
+// Limiter for reader reports (generous enough for real problems, tight enough to stop report flooding)
+export const reportLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 10, // Limit each IP to 10 reports per hour
+    message: 'Too many reports sent from this IP, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Limiter for creating collections
+export const createCollectionLimiter = rateLimit({
+    windowMs: 24 * 60 * 60 * 1000, // 24 hours
+    max: 20, // Limit each IP to 20 new collections per 24 hours
+    message: 'Too many collections created from this IP today, please try again tomorrow',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Limiter for creating series
+export const createSeriesLimiter = rateLimit({
+    windowMs: 24 * 60 * 60 * 1000, // 24 hours
+    max: 20, // Limit each IP to 20 new series per 24 hours
+    message: 'Too many series created from this IP today, please try again tomorrow',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Limiter for adding characters to the registry
+export const createCharacterLimiter = rateLimit({
+    windowMs: 24 * 60 * 60 * 1000, // 24 hours
+    max: 30, // Limit each IP to 30 new characters per 24 hours
+    message: 'Too many characters created from this IP today, please try again tomorrow',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Limiter for adding/removing reactions
+export const reactionLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 120, // Limit each IP to 120 reaction changes per hour
+    message: 'Too many reactions from this IP, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Limiter for posting comments and replies
+export const commentLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 30, // Limit each IP to 30 comments per hour
+    message: 'Too many comments posted from this IP, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
 // You could define other limiters here and export them too
 // export const generalApiLimiter = rateLimit({...});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import express from 'express';
+import {
+    getTrash,
+    restoreFromTrash,
+    purgeTrash,
+    getModerationQueue,
+    approveScript,
+    rejectScript,
+    getReportedScripts,
+    getScriptReports,
+    resolveScriptReports,
+} from '../controllers/adminController';
+import { requireAdmin, requireAdminOrCron } from '../middleware/adminAuth';
+
+const router = express.Router();
+
+// POST /api/admin/trash/purge - Permanently delete scripts trashed longer than ?olderThanDays
+// GET is also accepted because Vercel Cron can only send GET requests. This is the one route
+// that also accepts the cron secret, so it comes before the admin key check below.
+// IMPORTANT: Place this BEFORE the /trash/:id routes
+router.post('/trash/purge', requireAdminOrCron, purgeTrash);
+router.get('/trash/purge', requireAdminOrCron, purgeTrash);
+
+// Every other admin route requires the admin key (X-Admin-Key header)
+router.use(requireAdmin);
+
+// GET /api/admin/trash - List trashed script snippets (paginated)
+router.get('/trash', getTrash);
+
+// POST /api/admin/trash/:id/restore - Move a script out of the trash
+router.post('/trash/:id/restore', restoreFromTrash);
+
+// GET /api/admin/moderation - List scripts awaiting review (?status=pending|approved|rejected)
+router.get('/moderation', getModerationQueue);
+
+// POST /api/admin/moderation/:id/approve - Make a script public
+router.post('/moderation/:id/approve', approveScript);
+
+// POST /api/admin/moderation/:id/reject - Hide a script, with a reason for its creator
+router.post('/moderation/:id/reject', rejectScript);
+
+// GET /api/admin/reports - Scripts with open reader reports, most reported first
+router.get('/reports', getReportedScripts);
+
+// GET /api/admin/reports/:id - Every report filed against a script
+router.get('/reports/:id', getScriptReports);
+
+// POST /api/admin/reports/:id/resolve - Close a script's open reports and un-hide it
+router.post('/reports/:id/resolve', resolveScriptReports);
+
+export default router;
@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+    createCharacter,
+    getCharacters,
+    getCharacter,
+    updateCharacter,
+    deleteCharacter
+} from '../controllers/characterController';
+import { createCharacterLimiter } from '../middleware/rateLimiter';
+import { requireCharacterToken } from '../middleware/editAuth';
+
+const router = express.Router();
+
+// POST /api/characters - Add a character to the registry (returns its edit token once)
+router.post('/', createCharacterLimiter, createCharacter);
+
+// GET /api/characters - List registry characters (?search=...&page=N&limit=N)
+router.get('/', getCharacters);
+
+// GET /api/characters/:id - Character page: every script and line where the character speaks
+router.get('/:id', getCharacter);
+
+// PUT /api/characters/:id - Update name, aliases or bio (requires its edit token or the admin key)
+router.put('/:id', requireCharacterToken, updateCharacter);
+
+// DELETE /api/characters/:id - Remove a character from the registry (requires its edit token or the admin key)
+router.delete('/:id', requireCharacterToken, deleteCharacter);
+
+export default router;
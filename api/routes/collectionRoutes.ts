@@ -0,0 +1,44 @@
+import express from 'express';
+import {
+    createCollection,
+    getCollection,
+    getSharedCollection,
+    updateCollection,
+    deleteCollection,
+    addCollectionItem,
+    removeCollectionItem,
+    reorderCollectionItems
+} from '../controllers/collectionController';
+import { createCollectionLimiter } from '../middleware/rateLimiter';
+import { requireCollectionToken } from '../middleware/editAuth';
+
+const router = express.Router();
+
+// POST /api/collections - Create a collection (returns its edit token once)
+router.post('/', createCollectionLimiter, createCollection);
+
+// GET /api/collections/shared/:slug - Public read-only view of a collection
+// IMPORTANT: Place this BEFORE the /:id routes
+router.get('/shared/:slug', getSharedCollection);
+
+// Everything below requires the collection's edit token (X-Edit-Token) or the admin key
+
+// GET /api/collections/:id - Get a collection with its scripts
+router.get('/:id', requireCollectionToken, getCollection);
+
+// PUT /api/collections/:id - Rename or re-describe a collection
+router.put('/:id', requireCollectionToken, updateCollection);
+
+// DELETE /api/collections/:id - Delete a collection (its scripts are untouched)
+router.delete('/:id', requireCollectionToken, deleteCollection);
+
+// POST /api/collections/:id/items - Append a script ({ scriptId })
+router.post('/:id/items', requireCollectionToken, addCollectionItem);
+
+// PUT /api/collections/:id/items - Reorder scripts ({ scriptIds: [...] })
+router.put('/:id/items', requireCollectionToken, reorderCollectionItems);
+
+// DELETE /api/collections/:id/items/:scriptId - Remove a script
+router.delete('/:id/items/:scriptId', requireCollectionToken, removeCollectionItem);
+
+export default router;
@@ -7,6 +7,8 @@ const prisma = new PrismaClient(); // Instantiate Prisma for potential cleanup
 
 // Variable to hold the ID of the created script for later tests (like DELETE)
 let createdScriptId: string | null = null;
+// Edit token returned once on creation, required for PUT/DELETE
+let createdScriptEditToken: string | null = null;
 
 describe('Script Routes API', () => {
   // Test the GET /api/scripts endpoint
@@ -21,6 +23,18 @@ describe('Script Routes API', () => {
     expect(Array.isArray(response.body.data)).toBe(true);
   });
 
+  // Test GET /api/scripts/tags
+  it('GET /api/scripts/tags should return 200 OK and an array of tags with counts', async () => {
+    const response = await request(app).get('/api/scripts/tags');
+
+    expect(response.status).toBe(200);
+    expect(Array.isArray(response.body)).toBe(true);
+    response.body.forEach((tag: any) => {
+      expect(tag).toHaveProperty('name');
+      expect(typeof tag.count).toBe('number');
+    });
+  });
+
   // --- Tests for GET /api/scripts/random ---
   // FIX: Wrap in describe and add data setup/teardown
   describe('GET /api/scripts/random', () => {
@@ -110,10 +124,16 @@ describe('Script Routes API', () => {
     expect(response.body).toHaveProperty('id');
     expect(response.body.title).toBe(newScriptData.title);
     expect(response.body.characters).toEqual(newScriptData.characters);
-    expect(response.body.lines).toEqual(newScriptData.lines);
+    // Lines without an explicit type are stored and returned as dialogue
+    expect(response.body.lines).toEqual(newScriptData.lines.map(line => ({ type: 'dialogue', ...line })));
+
+    // The edit token is returned once, its hash never is
+    expect(response.body.editToken).toEqual(expect.any(String));
+    expect(response.body).not.toHaveProperty('editTokenHash');
 
     // Store the ID for potential cleanup or use in later tests
     createdScriptId = response.body.id;
+    createdScriptEditToken = response.body.editToken;
   });
 
   it('POST /api/scripts should return 400 for invalid data (e.g., missing lines)', async () => {
@@ -145,6 +165,23 @@ describe('Script Routes API', () => {
     expect(response.body.title).toBe('Test Script Title'); // Check against known created data
   });
 
+  it('PUT /api/scripts/:id should return 403 without the edit token', async () => {
+    if (!createdScriptId) {
+      throw new Error('Cannot run PUT test: createdScriptId is not set.');
+    }
+
+    const missingToken = await request(app)
+      .put(`/api/scripts/${createdScriptId}`)
+      .send({ title: 'Hijacked' });
+    expect(missingToken.status).toBe(403);
+
+    const wrongToken = await request(app)
+      .put(`/api/scripts/${createdScriptId}`)
+      .set('X-Edit-Token', 'not-the-token')
+      .send({ title: 'Hijacked' });
+    expect(wrongToken.status).toBe(403);
+  });
+
   // Test PUT /api/scripts/:id
   it('PUT /api/scripts/:id should update an existing script with valid data', async () => {
     if (!createdScriptId) {
@@ -162,6 +199,7 @@ describe('Script Routes API', () => {
 
     const response = await request(app)
       .put(`/api/scripts/${createdScriptId}`)
+      .set('X-Edit-Token', createdScriptEditToken!)
       .send(updatedData);
 
     expect(response.status).toBe(200);
@@ -169,7 +207,23 @@ describe('Script Routes API', () => {
     expect(response.body.id).toBe(createdScriptId);
     expect(response.body.title).toBe(updatedData.title);
     expect(response.body.characters).toEqual(updatedData.characters);
-    expect(response.body.lines).toEqual(updatedData.lines);
+    expect(response.body.lines).toEqual(updatedData.lines.map(line => ({ type: 'dialogue', ...line })));
+  });
+
+  it('GET /api/scripts/:id/revisions should list the create and update as revisions', async () => {
+    if (!createdScriptId) {
+      throw new Error('Cannot run revisions test: createdScriptId is not set.');
+    }
+
+    const response = await request(app).get(`/api/scripts/${createdScriptId}/revisions`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.map((revision: any) => revision.revision)).toEqual([2, 1]);
+
+    const diffResponse = await request(app).get(`/api/scripts/${createdScriptId}/revisions/diff`);
+    expect(diffResponse.status).toBe(200);
+    expect(diffResponse.body.from).toBe(1);
+    expect(diffResponse.body.to).toBe(2);
   });
 
   it('PUT /api/scripts/:id should return 400 for invalid update data', async () => {
@@ -184,6 +238,7 @@ describe('Script Routes API', () => {
 
     const response = await request(app)
       .put(`/api/scripts/${createdScriptId}`)
+      .set('X-Edit-Token', createdScriptEditToken!)
       .send(invalidUpdateData);
 
     expect(response.status).toBe(400);
@@ -203,13 +258,107 @@ describe('Script Routes API', () => {
     expect(response.body).toHaveProperty('error', 'Resource not found');
   });
 
+  it('POST /api/scripts/:id/reports should accept one report per client', async () => {
+    if (!createdScriptId) {
+      throw new Error('Cannot run reports test: createdScriptId is not set.');
+    }
+
+    const response = await request(app)
+      .post(`/api/scripts/${createdScriptId}/reports`)
+      .send({ reason: 'broken', note: 'Lines are out of order' });
+    expect(response.status).toBe(201);
+    expect(response.body.reason).toBe('broken');
+    expect(response.body).not.toHaveProperty('reporterHash');
+
+    const duplicate = await request(app)
+      .post(`/api/scripts/${createdScriptId}/reports`)
+      .send({ reason: 'spam' });
+    expect(duplicate.status).toBe(409);
+  });
+
+  it('POST /api/scripts/:id/fork should create a linked copy', async () => {
+    if (!createdScriptId) {
+      throw new Error('Cannot run fork test: createdScriptId is not set.');
+    }
+
+    const fork = await request(app)
+      .post(`/api/scripts/${createdScriptId}/fork`)
+      .send({ title: 'Forked Test Script' });
+    expect(fork.status).toBe(201);
+    expect(fork.body.parentId).toBe(createdScriptId);
+    expect(fork.body.title).toBe('Forked Test Script');
+    expect(fork.body).toHaveProperty('editToken');
+
+    const forks = await request(app).get(`/api/scripts/${createdScriptId}/forks`);
+    expect(forks.status).toBe(200);
+    expect(forks.body.map((script: any) => script.id)).toContain(fork.body.id);
+
+    const ancestors = await request(app).get(`/api/scripts/${fork.body.id}/ancestors`);
+    expect(ancestors.status).toBe(200);
+    expect(ancestors.body[0].id).toBe(createdScriptId);
+
+    await prisma.scriptSnip.delete({ where: { id: fork.body.id } });
+  });
+
+  it('POST/GET/DELETE /api/scripts/:id/comments should manage a comment thread', async () => {
+    if (!createdScriptId) {
+      throw new Error('Cannot run comments test: createdScriptId is not set.');
+    }
+
+    const comment = await request(app)
+      .post(`/api/scripts/${createdScriptId}/comments`)
+      .send({ body: 'Great twist' });
+    expect(comment.status).toBe(201);
+    expect(comment.body.displayName).toBe('Anonymous');
+    expect(comment.body).toHaveProperty('deleteToken');
+
+    const reply = await request(app)
+      .post(`/api/scripts/${createdScriptId}/comments`)
+      .send({ body: 'Agreed', displayName: 'Jax', parentId: comment.body.id });
+    expect(reply.status).toBe(201);
+
+    const nested = await request(app)
+      .post(`/api/scripts/${createdScriptId}/comments`)
+      .send({ body: 'Too deep', parentId: reply.body.id });
+    expect(nested.status).toBe(400);
+
+    const thread = await request(app).get(`/api/scripts/${createdScriptId}/comments`);
+    expect(thread.status).toBe(200);
+    expect(thread.body.data[0].replies[0].body).toBe('Agreed');
+    expect(thread.body.pagination.nextCursor).toBeNull();
+
+    const forbidden = await request(app).delete(`/api/scripts/${createdScriptId}/comments/${reply.body.id}`);
+    expect(forbidden.status).toBe(403);
+
+    // The parent has a reply, so it is only blanked out...
+    const blanked = await request(app)
+      .delete(`/api/scripts/${createdScriptId}/comments/${comment.body.id}`)
+      .set('X-Edit-Token', comment.body.deleteToken);
+    expect(blanked.status).toBe(204);
+    const blankedThread = await request(app).get(`/api/scripts/${createdScriptId}/comments`);
+    expect(blankedThread.body.data[0]).toMatchObject({ id: comment.body.id, deleted: true, body: null });
+
+    // ...until its last reply goes too
+    const deleted = await request(app)
+      .delete(`/api/scripts/${createdScriptId}/comments/${reply.body.id}`)
+      .set('X-Edit-Token', reply.body.deleteToken);
+    expect(deleted.status).toBe(204);
+    const emptyThread = await request(app).get(`/api/scripts/${createdScriptId}/comments`);
+    expect(emptyThread.body.data).toEqual([]);
+  });
+
   // Test DELETE /api/scripts/:id
   it('DELETE /api/scripts/:id should delete the existing script and return 204', async () => {
     if (!createdScriptId) {
       throw new Error('Cannot run DELETE test: createdScriptId is not set.');
     }
 
-    const response = await request(app).delete(`/api/scripts/${createdScriptId}`);
+    const forbidden = await request(app).delete(`/api/scripts/${createdScriptId}`);
+    expect(forbidden.status).toBe(403);
+
+    const response = await request(app)
+      .delete(`/api/scripts/${createdScriptId}`)
+      .set('X-Edit-Token', createdScriptEditToken!);
 
     expect(response.status).toBe(204); // Check for 204 No Content status
     expect(response.body).toEqual({}); // Expect empty body for 204
@@ -283,7 +432,7 @@ describe('Script Routes API', () => {
       expect(response.status).toBe(200);
       expect(response.body.data.length).toBeGreaterThan(0); // Should have data now
 
-      // Check if titles are sorted alphabetically (case-insensitive for robustness)
+      // Check if titles are sorted alphabetically (case-insensitive, untitled scripts sort as '' and come first)
       for (let i = 0; i < response.body.data.length - 1; i++) {
         const titleA = response.body.data[i]?.title?.toLowerCase() || '';
         const titleB = response.body.data[i + 1]?.title?.toLowerCase() || '';
@@ -291,6 +440,15 @@ describe('Script Routes API', () => {
       }
     });
 
+    it('should order titles the same way in page and cursor mode', async () => {
+      const pageResponse = await request(app).get('/api/scripts?sortBy=title&sortOrder=asc&limit=5');
+      const cursorResponse = await request(app).get('/api/scripts?sortBy=title&sortOrder=asc&limit=5&cursor=');
+
+      expect(pageResponse.status).toBe(200);
+      expect(cursorResponse.status).toBe(200);
+      expect(cursorResponse.body.data.map((script: any) => script.id)).toEqual(pageResponse.body.data.map((script: any) => script.id));
+    });
+
     // This test should now pass
     it('should handle sorting by createdAt descending (default)', async () => {
       const response = await request(app).get('/api/scripts?limit=5'); // Default sort
@@ -319,6 +477,41 @@ describe('Script Routes API', () => {
       // We can't easily assert that *only* matching items are returned without knowing all DB data
     });
 
+    // The list is a raw query; script_snips also has a tsvector column $queryRaw can't read
+    it('should return complete script rows from the raw list query', async () => {
+      const response = await request(app).get('/api/scripts?search=Script&sortBy=relevance&limit=5');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.length).toBeGreaterThan(0);
+      response.body.data.forEach((script: any) => {
+        expect(script).toHaveProperty('title');
+        expect(script).toHaveProperty('lines');
+        expect(script).toHaveProperty('highlights');
+        expect(script).not.toHaveProperty('searchDocument');
+      });
+    });
+
+    it('should fuzzy-match and suggest words from action lines, not just dialogue', async () => {
+      const script = await prisma.scriptSnip.create({
+        data: {
+          title: 'Night Watch',
+          characters: ['C1'],
+          lines: [{ type: 'action', text: 'Thunder rattles the observatory.' }, { type: 'dialogue', character: 'C1', dialogue: 'L1' }],
+        },
+      });
+      try {
+        const fuzzy = await request(app).get('/api/scripts?search=observatroy&fuzzy=true');
+        expect(fuzzy.status).toBe(200);
+        expect(fuzzy.body.data.map((found: any) => found.id)).toContain(script.id);
+
+        const missed = await request(app).get('/api/scripts?search=observatroy');
+        expect(missed.status).toBe(200);
+        expect(missed.body.suggestions).toContain('observatory');
+      } finally {
+        await prisma.scriptSnip.delete({ where: { id: script.id } });
+      }
+    });
+
     it('should return 400 for invalid pagination parameters (e.g., page=0)', async () => {
       const response = await request(app).get('/api/scripts?page=0&limit=5');
       expect(response.status).toBe(400);
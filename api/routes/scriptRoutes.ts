@@ -7,9 +7,24 @@ import {
     deleteScript,
     getRandomScript,
     getRandomScripts, // <-- Import the new controller function
-    getScriptsByIds
+    getScriptsByIds,
+    getScriptTags,
+    getTrendingScripts
 } from '../controllers/scriptController';
-import { createScriptLimiter } from '../middleware/rateLimiter';
+import {
+    getScriptRevisions,
+    getScriptRevision,
+    diffScriptRevisions,
+    restoreScriptRevision
+} from '../controllers/revisionController';
+import { createReport } from '../controllers/reportController';
+import { getScriptReactions, addScriptReaction, removeScriptReaction } from '../controllers/reactionController';
+import { forkScript, getScriptAncestors, getScriptForks } from '../controllers/forkController';
+import { getScriptTranslations } from '../controllers/translationController';
+import { getSimilarScripts } from '../controllers/similarController';
+import { getScriptComments, createComment, deleteComment } from '../controllers/commentController';
+import { createScriptLimiter, reportLimiter, reactionLimiter, commentLimiter } from '../middleware/rateLimiter';
+import { requireEditToken } from '../middleware/editAuth';
 
 const router = express.Router();
 
@@ -19,6 +34,10 @@ router.post('/', createScriptLimiter, createScript);
 // GET /api/scripts - Retrieve a list of all script snippets (paginated/filtered/sorted)
 router.get('/', getAllScripts);
 
+// GET /api/scripts/tags - Retrieve all tags with their usage counts
+// IMPORTANT: Place this BEFORE the /:id route
+router.get('/tags', getScriptTags);
+
 // GET /api/scripts/random - Retrieve a single random script snippet
 // IMPORTANT: Place this BEFORE the /:id route
 router.get('/random', getRandomScript);
@@ -27,6 +46,10 @@ router.get('/random', getRandomScript);
 // IMPORTANT: Place this BEFORE the /:id route
 router.get('/random-multiple', getRandomScripts);
 
+// GET /api/scripts/trending - Most viewed/reacted scripts in a recent window (?window=24h|7d|30d&limit=N)
+// IMPORTANT: Place this BEFORE the /:id route
+router.get('/trending', getTrendingScripts);
+
 // POST /api/scripts/batch - Retrieve multiple scripts by IDs in request body
 // IMPORTANT: Place this BEFORE the /:id route
 // FIX: Change from GET to POST
@@ -35,10 +58,60 @@ router.post('/batch', getScriptsByIds);
 // GET /api/scripts/:id - Retrieve a single script snippet by ID
 router.get('/:id', getScriptById);
 
-// PUT /api/scripts/:id - Update a script snippet by ID
-router.put('/:id', updateScript);
+// PUT /api/scripts/:id - Update a script snippet by ID (requires its edit token or the admin key)
+router.put('/:id', requireEditToken, updateScript);
+
+// DELETE /api/scripts/:id - Delete a script snippet by ID (requires its edit token or the admin key)
+router.delete('/:id', requireEditToken, deleteScript);
+
+// POST /api/scripts/:id/fork - Create a new script starting from this one's content (Rate limited like creation)
+router.post('/:id/fork', createScriptLimiter, forkScript);
+
+// GET /api/scripts/:id/ancestors - The scripts this one was forked from, nearest first
+router.get('/:id/ancestors', getScriptAncestors);
+
+// GET /api/scripts/:id/forks - Direct forks of this script, newest first
+router.get('/:id/forks', getScriptForks);
+
+// GET /api/scripts/:id/translations - The script's original and every translation, with their languages
+router.get('/:id/translations', getScriptTranslations);
+
+// GET /api/scripts/:id/similar - Other scripts like this one, most similar first (?limit=N&excludeIds=a,b)
+router.get('/:id/similar', getSimilarScripts);
+
+// GET /api/scripts/:id/revisions - List the revision history of a script (newest first)
+router.get('/:id/revisions', getScriptRevisions);
+
+// GET /api/scripts/:id/revisions/diff?from=N&to=M - Line-level diff between two revisions
+// IMPORTANT: Place this BEFORE the /:id/revisions/:rev route
+router.get('/:id/revisions/diff', diffScriptRevisions);
+
+// GET /api/scripts/:id/revisions/:rev - Retrieve a single revision
+router.get('/:id/revisions/:rev', getScriptRevision);
+
+// POST /api/scripts/:id/revisions/:rev/restore - Restore a script to an earlier revision
+// (requires the script's edit token or the admin key)
+router.post('/:id/revisions/:rev/restore', requireEditToken, restoreScriptRevision);
+
+// POST /api/scripts/:id/reports - Report a problematic script (Rate limited)
+router.post('/:id/reports', reportLimiter, createReport);
+
+// GET /api/scripts/:id/reactions - Reaction counts (plus the ones the current client left)
+router.get('/:id/reactions', getScriptReactions);
+
+// PUT /api/scripts/:id/reactions/:type - React (laugh, chills, applause, tears), once per type per client (Rate limited)
+router.put('/:id/reactions/:type', reactionLimiter, addScriptReaction);
+
+// DELETE /api/scripts/:id/reactions/:type - Take a reaction back (Rate limited)
+router.delete('/:id/reactions/:type', reactionLimiter, removeScriptReaction);
+
+// GET /api/scripts/:id/comments - Top-level comments newest first with their replies (?limit=N&cursor=...)
+router.get('/:id/comments', getScriptComments);
+
+// POST /api/scripts/:id/comments - Post a comment, or a reply with parentId (Rate limited)
+router.post('/:id/comments', commentLimiter, createComment);
 
-// DELETE /api/scripts/:id - Delete a script snippet by ID
-router.delete('/:id', deleteScript);
+// DELETE /api/scripts/:id/comments/:commentId - Delete a comment (requires its delete token or the admin key)
+router.delete('/:id/comments/:commentId', deleteComment);
 
 export default router;
\ No newline at end of file
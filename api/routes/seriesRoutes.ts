@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+    createSeries,
+    getSeries,
+    updateSeries,
+    deleteSeries,
+    addSeriesEpisode,
+    removeSeriesEpisode,
+    reorderSeriesEpisodes
+} from '../controllers/seriesController';
+import { createSeriesLimiter } from '../middleware/rateLimiter';
+import { requireSeriesToken } from '../middleware/editAuth';
+
+const router = express.Router();
+
+// POST /api/series - Create a series (returns its edit token once)
+router.post('/', createSeriesLimiter, createSeries);
+
+// GET /api/series/:id - Get a series with its episodes in order (public)
+router.get('/:id', getSeries);
+
+// Everything below requires the series' edit token (X-Edit-Token) or the admin key
+
+// PUT /api/series/:id - Retitle or re-describe a series
+router.put('/:id', requireSeriesToken, updateSeries);
+
+// DELETE /api/series/:id - Delete a series (its scripts are untouched)
+router.delete('/:id', requireSeriesToken, deleteSeries);
+
+// POST /api/series/:id/episodes - Append a script ({ scriptId, scriptEditToken })
+router.post('/:id/episodes', requireSeriesToken, addSeriesEpisode);
+
+// PUT /api/series/:id/episodes - Reorder episodes ({ scriptIds: [...] })
+router.put('/:id/episodes', requireSeriesToken, reorderSeriesEpisodes);
+
+// DELETE /api/series/:id/episodes/:scriptId - Remove an episode
+router.delete('/:id/episodes/:scriptId', requireSeriesToken, removeSeriesEpisode);
+
+export default router;
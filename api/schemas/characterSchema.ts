@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const MAX_CHARACTER_NAME_LENGTH = 100;
+export const MAX_CHARACTER_ALIASES = 20;
+export const MAX_CHARACTER_BIO_LENGTH = 1000;
+
+const nameSchema = z.string().trim()
+    .min(1, { message: "Character name cannot be empty" })
+    .max(MAX_CHARACTER_NAME_LENGTH, { message: `Character name cannot be longer than ${MAX_CHARACTER_NAME_LENGTH} characters` });
+
+// Aliases are de-duplicated after trimming
+const aliasesSchema = z.array(nameSchema)
+    .max(MAX_CHARACTER_ALIASES, { message: `A character can have at most ${MAX_CHARACTER_ALIASES} aliases` })
+    .transform(aliases => Array.from(new Set(aliases)));
+
+const bioSchema = z.string().trim()
+    .max(MAX_CHARACTER_BIO_LENGTH, { message: `Bio cannot be longer than ${MAX_CHARACTER_BIO_LENGTH} characters` });
+
+// Schema for adding a character to the registry
+export const createCharacterSchema = z.object({
+    name: nameSchema,
+    aliases: aliasesSchema.optional(),
+    bio: bioSchema.optional()
+});
+
+// Schema for updating a registry character
+export const updateCharacterSchema = z.object({
+    name: nameSchema.optional(),
+    aliases: aliasesSchema.optional(),
+    bio: bioSchema.nullable().optional() // null clears the bio
+}).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update"
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const MAX_COLLECTION_ITEMS = 200;
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+
+const nameSchema = z.string().trim()
+    .min(1, { message: "Collection name cannot be empty" })
+    .max(MAX_COLLECTION_NAME_LENGTH, { message: `Collection name cannot be longer than ${MAX_COLLECTION_NAME_LENGTH} characters` });
+
+const descriptionSchema = z.string().trim()
+    .max(MAX_COLLECTION_DESCRIPTION_LENGTH, { message: `Description cannot be longer than ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters` });
+
+const scriptIdsSchema = z.array(z.string().min(1, { message: "Script ID cannot be empty" }))
+    .max(MAX_COLLECTION_ITEMS, { message: `A collection can hold at most ${MAX_COLLECTION_ITEMS} scripts` });
+
+// Schema for creating a collection (optionally with initial scripts, in order)
+export const createCollectionSchema = z.object({
+    name: nameSchema,
+    description: descriptionSchema.optional(),
+    scriptIds: scriptIdsSchema.optional()
+});
+
+// Schema for renaming/re-describing a collection
+export const updateCollectionSchema = z.object({
+    name: nameSchema.optional(),
+    description: descriptionSchema.nullable().optional() // null clears the description
+}).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update"
+});
+
+// Schema for adding a script to a collection
+export const addCollectionItemSchema = z.object({
+    scriptId: z.string().min(1, { message: "Script ID cannot be empty" })
+});
+
+// Schema for reordering a collection: every script currently in it, in the new order
+export const reorderCollectionSchema = z.object({
+    scriptIds: scriptIdsSchema
+});
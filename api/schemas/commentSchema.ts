@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+
+// Schema for posting a comment or a reply
+export const createCommentSchema = z.object({
+    body: z.string().trim()
+        .min(1, { message: "Comment cannot be empty" })
+        .max(MAX_COMMENT_LENGTH, { message: `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters` }),
+    displayName: z.string().trim()
+        .min(1, { message: "Display name cannot be empty" })
+        .max(MAX_DISPLAY_NAME_LENGTH, { message: `Display name cannot be longer than ${MAX_DISPLAY_NAME_LENGTH} characters` })
+        .optional(), // Defaults to "Anonymous"
+    parentId: z.string().min(1).optional() // Reply to this top-level comment
+});
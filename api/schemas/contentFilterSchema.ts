@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// What happens when a rule matches:
+// - reject: the submission is refused with a 422 listing every match
+// - mask:   the matched text is replaced with asterisks and the submission is saved
+// - flag:   the submission is saved but held in the moderation queue
+export const FILTER_ACTIONS = ['reject', 'mask', 'flag'] as const;
+export type FilterAction = typeof FILTER_ACTIONS[number];
+
+// A rule from the content filter config file: a word list (inline or one word per line in a file) or a regex
+const filterRuleConfigSchema = z.object({
+    id: z.string().min(1, { message: "Rule id cannot be empty" }),
+    action: z.enum(FILTER_ACTIONS),
+    message: z.string().optional(), // Shown to the submitter when the rule rejects content
+    words: z.array(z.string().min(1)).optional(),
+    wordsFile: z.string().optional(), // Relative to the config file
+    pattern: z.string().optional(),
+    flags: z.string().optional(), // Regex flags for 'pattern' ('g' is always added)
+}).refine(rule => [rule.words, rule.wordsFile, rule.pattern].filter(source => source !== undefined).length === 1, {
+    message: "Each rule needs exactly one of 'words', 'wordsFile' or 'pattern'"
+});
+
+// Schema for the whole config file (CONTENT_FILTER_CONFIG)
+export const contentFilterConfigSchema = z.object({
+    useDefaults: z.boolean().default(true), // Keep the built-in URL/email/phone rules (a rule with the same id replaces one)
+    rules: z.array(filterRuleConfigSchema).default([]),
+});
+
+export type FilterRuleConfig = z.infer<typeof filterRuleConfigSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const MAX_MODERATION_REASON_LENGTH = 500;
+
+// Schema for rejecting a script (the reason is shown to its creator)
+export const rejectScriptSchema = z.object({
+    reason: z.string().trim()
+        .min(1, { message: "A reason is required when rejecting a script" })
+        .max(MAX_MODERATION_REASON_LENGTH, { message: `Reason cannot be longer than ${MAX_MODERATION_REASON_LENGTH} characters` })
+});
+
+// Which queue the admin moderation list shows
+export const moderationQueueSchema = z.enum(['pending', 'approved', 'rejected']).default('pending');
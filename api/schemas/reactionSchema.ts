@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// The fixed set of reactions readers can leave on a script
+export const REACTION_TYPES = ['laugh', 'chills', 'applause', 'tears'] as const;
+export type ReactionTypeName = typeof REACTION_TYPES[number];
+
+// Schema for the :type route parameter
+export const reactionTypeSchema = z.enum(REACTION_TYPES, {
+    errorMap: () => ({ message: `Reaction must be one of: ${REACTION_TYPES.join(', ')}` })
+});
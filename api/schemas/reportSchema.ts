@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const REPORT_REASONS = ['spam', 'offensive', 'harassment', 'personal_info', 'broken', 'copyright', 'other'] as const;
+export const MAX_REPORT_NOTE_LENGTH = 1000;
+
+// Schema for reporting a script
+export const createReportSchema = z.object({
+    reason: z.enum(REPORT_REASONS, {
+        errorMap: () => ({ message: `Reason must be one of: ${REPORT_REASONS.join(', ')}` })
+    }),
+    note: z.string().trim()
+        .max(MAX_REPORT_NOTE_LENGTH, { message: `Note cannot be longer than ${MAX_REPORT_NOTE_LENGTH} characters` })
+        .optional() // Optional free-text details
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { scriptRangeFilterSchema } from './scriptQuerySchema';
+
+describe('scriptRangeFilterSchema', () => {
+    it('should coerce query strings and drop empty values', () => {
+        expect(scriptRangeFilterSchema.parse({ minLines: '2', maxWords: '', createdBefore: '2025-06-01', search: 'x' })).toEqual({
+            minLines: 2,
+            createdBefore: new Date('2025-06-01'),
+        });
+    });
+
+    it('should reject non-numeric, fractional, negative and non-decimal counts', () => {
+        for (const value of ['many', '2.5', '2.0', '-1', '+3', '1e2', '0x10', 'Infinity']) {
+            const result = scriptRangeFilterSchema.safeParse({ maxLines: value });
+            expect(result.error?.errors[0]).toMatchObject({ path: ['maxLines'], message: 'maxLines must be a whole number of 0 or more' });
+        }
+    });
+
+    it('should treat whitespace-only values as not given and trim the rest', () => {
+        expect(scriptRangeFilterSchema.parse({ minLines: '  ', maxLines: ' 4 ', createdAfter: ' ' })).toEqual({ maxLines: 4 });
+    });
+
+    it('should reject dates that are not ISO 8601', () => {
+        for (const value of ['last tuesday', '06/01/2025', '2025-02-30', '2025-06-01T12:00:00', '1717200000000']) {
+            const result = scriptRangeFilterSchema.safeParse({ createdAfter: value });
+            expect(result.error?.errors[0]).toMatchObject({
+                path: ['createdAfter'],
+                message: 'createdAfter must be an ISO 8601 date (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)',
+            });
+        }
+    });
+
+    it('should accept ISO 8601 date-times with a time zone', () => {
+        expect(scriptRangeFilterSchema.parse({ createdAfter: '2025-06-01T12:00:00+02:00' })).toEqual({
+            createdAfter: new Date('2025-06-01T10:00:00Z'),
+        });
+    });
+
+    it('should reject a minimum above its maximum', () => {
+        const result = scriptRangeFilterSchema.safeParse({ minCharacters: '3', maxCharacters: '2' });
+        expect(result.error?.errors[0]).toMatchObject({ path: ['minCharacters'], message: 'minCharacters cannot be greater than maxCharacters' });
+    });
+});
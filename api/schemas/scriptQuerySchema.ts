@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// Query parameters arrive as strings; surrounding whitespace is ignored and an empty value counts as not given
+const emptyAsUndefined = (value: unknown) => {
+    const trimmed = typeof value === 'string' ? value.trim() : value;
+    return trimmed === '' ? undefined : trimmed;
+};
+
+// Counts are plain digits, so '1e2', '0x10' or '2.0' are rejected rather than read as some other number
+const countSchema = (name: string) => {
+    const message = `${name} must be a whole number of 0 or more`;
+    return z.preprocess(emptyAsUndefined, z.string({ invalid_type_error: message })
+        .regex(/^\d+$/, { message })
+        .pipe(z.coerce.number().int())
+        .optional());
+};
+
+// Dates must be ISO 8601: a calendar date (2025-06-01, UTC) or a date-time with a time zone (2025-06-01T12:00:00Z),
+// rather than whatever else Date happens to parse ("last tuesday" fails, "2025-02-30" would roll over into March)
+const isoDate = z.string().date();
+const isoDateTime = z.string().datetime({ offset: true });
+
+const dateSchema = (name: string) => {
+    const message = `${name} must be an ISO 8601 date (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)`;
+    return z.preprocess(emptyAsUndefined, z.string({ invalid_type_error: message })
+        .refine(value => isoDate.safeParse(value).success || isoDateTime.safeParse(value).success, { message })
+        .pipe(z.coerce.date())
+        .optional());
+};
+
+// Range filters for GET /api/scripts. Bounds are inclusive, except createdBefore (createdAt < createdBefore).
+export const scriptRangeFilterSchema = z.object({
+    minLines: countSchema('minLines'),
+    maxLines: countSchema('maxLines'),
+    minCharacters: countSchema('minCharacters'),
+    maxCharacters: countSchema('maxCharacters'),
+    minWords: countSchema('minWords'),
+    maxWords: countSchema('maxWords'),
+    createdAfter: dateSchema('createdAfter'),
+    createdBefore: dateSchema('createdBefore'),
+}).superRefine((filters, ctx) => {
+    const ranges = [['minLines', 'maxLines'], ['minCharacters', 'maxCharacters'], ['minWords', 'maxWords'], ['createdAfter', 'createdBefore']] as const;
+    for (const [min, max] of ranges) {
+        const low = filters[min];
+        const high = filters[max];
+        if (low !== undefined && high !== undefined && low > high) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [min], message: `${min} cannot be greater than ${max}` });
+        }
+    }
+});
+
+export type ScriptRangeFilters = z.infer<typeof scriptRangeFilterSchema>;
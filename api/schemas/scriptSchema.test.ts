@@ -81,6 +81,76 @@ describe('Script Schemas', () => {
         });
     });
 
+    // --- Tests for typed lines ---
+    describe('line types', () => {
+        const parseLines = (lines: unknown[]) => createScriptSchema.safeParse({ characters: ['Alice'], lines });
+
+        it('should default lines without a type to dialogue', () => {
+            const result = parseLines([{ character: 'Alice', dialogue: 'Hello.' }]);
+            expect(result.success).toBe(true);
+            expect(result.data?.lines[0]).toEqual({ type: 'dialogue', character: 'Alice', dialogue: 'Hello.' });
+        });
+
+        it('should accept parenthetical, action, scene heading and transition lines', () => {
+            const result = parseLines([
+                { type: 'scene_heading', text: 'INT. LAB - NIGHT' },
+                { type: 'action', text: 'Sparks fly from the console.' },
+                { type: 'parenthetical', character: 'Alice', text: 'whispering' },
+                { type: 'dialogue', character: 'Alice', dialogue: 'Did you hear that?' },
+                { type: 'transition', text: 'CUT TO:' }
+            ]);
+            expect(result.success).toBe(true);
+            expect(result.data?.lines.map(line => line.type)).toEqual(['scene_heading', 'action', 'parenthetical', 'dialogue', 'transition']);
+        });
+
+        it('should fail for an unknown line type', () => {
+            const result = parseLines([{ type: 'song', text: 'La la la' }]);
+            expect(result.success).toBe(false);
+            expect(result.error?.errors[0]?.path).toEqual(['lines', 0, 'type']);
+        });
+
+        it('should fail if an action line has empty text', () => {
+            const result = parseLines([{ type: 'action', text: '' }]);
+            expect(result.success).toBe(false);
+            expect(result.error?.errors[0]?.message).toBe('Action cannot be empty');
+            expect(result.error?.errors[0]?.path).toEqual(['lines', 0, 'text']);
+        });
+
+        it('should fail if a parenthetical has no character', () => {
+            const result = parseLines([{ type: 'parenthetical', text: 'beat' }]);
+            expect(result.success).toBe(false);
+            expect(result.error?.errors[0]?.path).toEqual(['lines', 0, 'character']);
+        });
+    });
+
+    // --- Tests for tags ---
+    describe('tags', () => {
+        const base = { characters: ['Alice'], lines: [{ character: 'Alice', dialogue: 'Hi.' }] };
+
+        it('should normalize and de-duplicate tags', () => {
+            const result = createScriptSchema.safeParse({ ...base, tags: [' Sci Fi ', 'sci-fi', 'NOIR'] });
+            expect(result.success).toBe(true);
+            expect(result.data?.tags).toEqual(['sci-fi', 'noir']);
+        });
+
+        it('should reject tags with invalid characters', () => {
+            const result = createScriptSchema.safeParse({ ...base, tags: ['noir!'] });
+            expect(result.success).toBe(false);
+            expect(result.error?.errors[0]?.path).toEqual(['tags', 0]);
+        });
+
+        it('should reject more than the maximum number of tags', () => {
+            const tags = Array.from({ length: 11 }, (_, i) => `tag-${i}`);
+            const result = createScriptSchema.safeParse({ ...base, tags });
+            expect(result.success).toBe(false);
+        });
+
+        it('should allow updating tags only', () => {
+            const result = updateScriptSchema.safeParse({ tags: ['comedy'] });
+            expect(result.success).toBe(true);
+        });
+    });
+
     // --- Tests for updateScriptSchema ---
     describe('updateScriptSchema', () => {
         const validLine = { character: 'Alice', dialogue: 'Updated dialogue.' };
@@ -1,25 +1,128 @@
 import { z } from 'zod';
 
-// Schema for a single line object
-const lineSchema = z.object({
+// Tag limits (kept small so tags stay useful as a taxonomy rather than free text)
+export const MAX_TAGS_PER_SCRIPT = 10;
+export const MAX_TAG_LENGTH = 32;
+
+// Normalize a raw tag: trim, lowercase and collapse whitespace/underscores into dashes ("Sci Fi" -> "sci-fi")
+export const normalizeTag = (tag: string): string =>
+    tag.trim().toLowerCase().replace(/[\s_]+/g, '-').replace(/-+/g, '-');
+
+// Schema for a single tag (validated after normalization)
+const tagSchema = z.string()
+    .transform(normalizeTag)
+    .pipe(z.string()
+        .min(1, { message: "Tag cannot be empty" })
+        .max(MAX_TAG_LENGTH, { message: `Tag cannot be longer than ${MAX_TAG_LENGTH} characters` })
+        .regex(/^[a-z0-9][a-z0-9-]*$/, { message: "Tag may only contain letters, numbers and dashes" }));
+
+// Schema for a list of tags (duplicates after normalization are dropped)
+const tagsSchema = z.array(tagSchema)
+    .max(MAX_TAGS_PER_SCRIPT, { message: `A script can have at most ${MAX_TAGS_PER_SCRIPT} tags` })
+    .transform(tags => Array.from(new Set(tags)));
+
+// BCP-47 language tag, stored in canonical form ("EN-us" -> "en-US")
+export const languageSchema = z.string().trim().transform((tag, ctx) => {
+    try {
+        const [canonical] = Intl.getCanonicalLocales(tag);
+        if (canonical) {
+            return canonical;
+        }
+    } catch {
+        // Not a well-formed tag, reported below
+    }
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${tag}" is not a valid BCP-47 language tag` });
+    return z.NEVER;
+});
+
+// Links from cast entries to registry characters: { "<name in characters>": "<character ID>" }
+const characterLinksSchema = z.record(
+    z.string().min(1, { message: "Cast name cannot be empty" }),
+    z.string().min(1, { message: "Character ID cannot be empty" })
+);
+
+// Supported line types (screenplay-style building blocks)
+export const LINE_TYPES = ['dialogue', 'parenthetical', 'action', 'scene_heading', 'transition'] as const;
+export type LineType = typeof LINE_TYPES[number];
+
+// A character speaking
+const dialogueLineSchema = z.object({
+    type: z.literal('dialogue'),
     character: z.string().min(1, { message: "Character name cannot be empty" }),
     dialogue: z.string().min(1, { message: "Dialogue cannot be empty" })
 });
 
+// A direction attached to a character, e.g. "(whispering)"
+const parentheticalLineSchema = z.object({
+    type: z.literal('parenthetical'),
+    character: z.string().min(1, { message: "Character name cannot be empty" }),
+    text: z.string().min(1, { message: "Parenthetical cannot be empty" })
+});
+
+// Action beats, scene headings ("INT. BRIDGE - NIGHT") and transitions ("CUT TO:") are not spoken by anyone
+const actionLineSchema = z.object({
+    type: z.literal('action'),
+    text: z.string().min(1, { message: "Action cannot be empty" })
+});
+
+const sceneHeadingLineSchema = z.object({
+    type: z.literal('scene_heading'),
+    text: z.string().min(1, { message: "Scene heading cannot be empty" })
+});
+
+const transitionLineSchema = z.object({
+    type: z.literal('transition'),
+    text: z.string().min(1, { message: "Transition cannot be empty" })
+});
+
+// Schema for a single line object
+// Lines without a 'type' are treated as dialogue so existing clients keep working
+export const lineSchema = z.preprocess(
+    line => (line && typeof line === 'object' && (line as { type?: unknown }).type === undefined)
+        ? { ...line, type: 'dialogue' }
+        : line,
+    z.discriminatedUnion('type', [
+        dialogueLineSchema,
+        parentheticalLineSchema,
+        actionLineSchema,
+        sceneHeadingLineSchema,
+        transitionLineSchema
+    ])
+);
+
+export type ScriptLine = z.infer<typeof lineSchema>;
+
 // Schema for creating a script
 export const createScriptSchema = z.object({
     title: z.string().optional(), // Title is optional
     characters: z.array(z.string().min(1, { message: "Character name cannot be empty" }))
                  .min(1, { message: "At least one character is required" }),
     lines: z.array(lineSchema)
-            .min(1, { message: "At least one line is required" })
+            .min(1, { message: "At least one line is required" }),
+    tags: tagsSchema.optional(), // Tags are optional
+    characterLinks: characterLinksSchema.optional(), // Link cast entries to the character registry
+    language: languageSchema.optional(),
+    translationOf: z.string().min(1).optional() // ID of the script this one translates
 });
 
 // Schema for updating a script (all fields optional)
 export const updateScriptSchema = z.object({
     title: z.string().optional(),
     characters: z.array(z.string().min(1)).optional(),
-    lines: z.array(lineSchema).optional()
+    lines: z.array(lineSchema).optional(),
+    tags: tagsSchema.optional(),
+    characterLinks: characterLinksSchema.optional(), // Replaces all of the script's links ({} removes them)
+    language: languageSchema.nullable().optional(), // null clears the language
+    translationOf: z.string().min(1).nullable().optional() // null unlinks the script from its original
 }).partial().refine(data => Object.keys(data).length > 0, {
     message: "At least one field must be provided for update" // Ensure at least one field is being updated
-});
\ No newline at end of file
+});
+
+// Schema for forking a script: every field is optional and overrides the source's content
+export const forkScriptSchema = z.object({
+    title: z.string().optional(),
+    characters: z.array(z.string().min(1)).optional(),
+    lines: z.array(lineSchema).optional(),
+    tags: tagsSchema.optional(),
+    language: languageSchema.optional()
+}).default({});
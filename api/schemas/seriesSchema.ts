@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const MAX_SERIES_EPISODES = 100;
+export const MAX_SERIES_TITLE_LENGTH = 100;
+export const MAX_SERIES_DESCRIPTION_LENGTH = 1000;
+
+const titleSchema = z.string().trim()
+    .min(1, { message: "Series title cannot be empty" })
+    .max(MAX_SERIES_TITLE_LENGTH, { message: `Series title cannot be longer than ${MAX_SERIES_TITLE_LENGTH} characters` });
+
+const descriptionSchema = z.string().trim()
+    .max(MAX_SERIES_DESCRIPTION_LENGTH, { message: `Description cannot be longer than ${MAX_SERIES_DESCRIPTION_LENGTH} characters` });
+
+// Schema for creating a series
+export const createSeriesSchema = z.object({
+    title: titleSchema,
+    description: descriptionSchema.optional()
+});
+
+// Schema for retitling/re-describing a series
+export const updateSeriesSchema = z.object({
+    title: titleSchema.optional(),
+    description: descriptionSchema.nullable().optional() // null clears the description
+}).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update"
+});
+
+// Schema for appending an episode. Only someone who can manage the script may add it,
+// so the script's own edit token is required (unless the request carries the admin key).
+export const addSeriesEpisodeSchema = z.object({
+    scriptId: z.string().min(1, { message: "Script ID cannot be empty" }),
+    scriptEditToken: z.string().min(1).optional()
+});
+
+// Schema for reordering episodes
+export const reorderSeriesSchema = z.object({
+    scriptIds: z.array(z.string().min(1, { message: "Script ID cannot be empty" }))
+        .max(MAX_SERIES_EPISODES, { message: `A series can hold at most ${MAX_SERIES_EPISODES} episodes` })
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZodError } from 'zod';
+import { resolveCharacterLinks } from './characterLinks';
+
+// Minimal transaction client: only the registry lookup is used
+const clientWith = (existingIds: string[]) => ({
+    character: {
+        findMany: vi.fn(async ({ where }: any) =>
+            existingIds.filter(id => where.id.in.includes(id)).map(id => ({ id }))),
+    },
+}) as any;
+
+describe('resolveCharacterLinks', () => {
+    it('should turn valid links into rows for the link table', async () => {
+        const links = await resolveCharacterLinks(clientWith(['char-eva']), { 'Captain Eva': 'char-eva' }, ['Captain Eva', 'Jax']);
+        expect(links).toEqual([{ castName: 'Captain Eva', characterId: 'char-eva' }]);
+    });
+
+    it('should skip the registry lookup when there are no links', async () => {
+        const client = clientWith([]);
+        expect(await resolveCharacterLinks(client, {}, ['Eva'])).toEqual([]);
+        expect(client.character.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown cast names and characters as validation issues', async () => {
+        const error = await resolveCharacterLinks(
+            clientWith(['char-eva']),
+            { Eva: 'char-missing', Nobody: 'char-eva' },
+            ['Eva']
+        ).catch(e => e);
+
+        expect(error).toBeInstanceOf(ZodError);
+        expect(error.issues).toEqual([
+            expect.objectContaining({ path: ['characterLinks', 'Eva'], message: 'Character "char-missing" does not exist in the registry' }),
+            expect.objectContaining({ path: ['characterLinks', 'Nobody'], message: '"Nobody" is not in the cast' }),
+        ]);
+    });
+});
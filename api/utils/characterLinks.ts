@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { ZodError, ZodIssue } from 'zod';
+
+// Check a script's requested cast links ({ castName: characterId }) against its final cast and the registry.
+// Throws a ZodError (reported like any other validation error) for cast names that aren't in the cast
+// and character IDs that don't exist.
+export const resolveCharacterLinks = async (
+    tx: Prisma.TransactionClient,
+    links: Record<string, string>,
+    characters: string[]
+): Promise<{ castName: string; characterId: string }[]> => {
+    const entries = Object.entries(links);
+    if (entries.length === 0) {
+        return [];
+    }
+
+    const characterIds = Array.from(new Set(entries.map(([, characterId]) => characterId)));
+    const known = new Set((await tx.character.findMany({
+        where: { id: { in: characterIds } },
+        select: { id: true },
+    })).map(character => character.id));
+
+    const issues: ZodIssue[] = [];
+    for (const [castName, characterId] of entries) {
+        const path = ['characterLinks', castName];
+        if (!characters.includes(castName)) {
+            issues.push({ code: 'custom', path, message: `"${castName}" is not in the cast` });
+        } else if (!known.has(characterId)) {
+            issues.push({ code: 'custom', path, message: `Character "${characterId}" does not exist in the registry` });
+        }
+    }
+    if (issues.length > 0) {
+        throw new ZodError(issues);
+    }
+    return entries.map(([castName, characterId]) => ({ castName, characterId }));
+};
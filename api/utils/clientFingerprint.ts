@@ -0,0 +1,8 @@
+import { Request } from 'express';
+import { hashToken } from './tokens';
+import { getClientHashSalt } from '../config';
+
+// Anonymous, stable identifier for the client making a request (salted hash of its IP).
+// Used to allow one report/reaction per client without storing IP addresses.
+export const clientFingerprint = (req: Request): string =>
+    hashToken(`${getClientHashSalt()}:${req.ip ?? 'unknown'}`);
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { filterScriptContent, loadFilterRules, getFilterRules, DEFAULT_FILTER_RULES, FilterRule } from './contentFilter';
+import { AppError } from '../middleware/errorHandler';
+
+let tmpDir: string;
+const loadRulesFrom = (config: unknown, name = 'filter.json'): FilterRule[] => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, JSON.stringify(config));
+    return loadFilterRules(file);
+};
+
+const wordRule = (action: FilterRule['action']): FilterRule[] => loadRulesFrom({
+    useDefaults: false,
+    rules: [{ id: 'profanity', action, words: ['darn', 'heck'] }],
+});
+
+describe('Content Filter', () => {
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-filter-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should mask emails and phone numbers by default', () => {
+        const { content, flagged } = filterScriptContent({
+            lines: [{ type: 'dialogue', character: 'A', dialogue: 'Mail me at jax@example.com or call 555-123-4567.' }],
+        }, DEFAULT_FILTER_RULES);
+
+        expect(content.lines![0]).toEqual({ type: 'dialogue', character: 'A', dialogue: `Mail me at ${'*'.repeat(15)} or call ${'*'.repeat(12)}.` });
+        expect(flagged).toEqual([]);
+    });
+
+    it('should flag links for review by default', () => {
+        const { content, flagged } = filterScriptContent({ title: 'Visit https://spam.example' }, DEFAULT_FILTER_RULES);
+
+        expect(content.title).toBe('Visit https://spam.example');
+        expect(flagged).toEqual([expect.objectContaining({ path: 'title', rule: 'url', action: 'flag' })]);
+    });
+
+    it('should reject with a 422 listing every rejected field', () => {
+        const rules = wordRule('reject');
+        let error: any;
+        try {
+            filterScriptContent({
+                characters: ['Heck Hound'],
+                lines: [{ type: 'action', text: 'Darn it.' }, { type: 'action', text: 'Fine.' }],
+            }, rules);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(AppError);
+        expect(error.statusCode).toBe(422);
+        expect(error.details.map((detail: any) => detail.path)).toEqual(['characters.0', 'lines.0.text']);
+    });
+
+    it('should only match listed words as whole words', () => {
+        const { content } = filterScriptContent({ title: 'Heckler darn' }, wordRule('mask'));
+        expect(content.title).toBe('Heckler ****');
+    });
+
+    it('should mask speakers the same way in the cast and the lines', () => {
+        const { content } = filterScriptContent({
+            characters: ['Darn Bot'],
+            lines: [{ type: 'dialogue', character: 'Darn Bot', dialogue: 'Beep.' }],
+        }, wordRule('mask'));
+
+        expect(content.characters).toEqual(['**** Bot']);
+        expect(content.lines![0]).toEqual(expect.objectContaining({ character: '**** Bot' }));
+    });
+
+    it('should load word list files and let config rules replace defaults by id', () => {
+        fs.writeFileSync(path.join(tmpDir, 'words.txt'), '# local list\ngosh\n\nzounds\n');
+        const rules = loadRulesFrom({
+            rules: [
+                { id: 'mild', action: 'flag', wordsFile: 'words.txt' },
+                { id: 'url', action: 'reject', pattern: 'https?://', flags: 'i' },
+            ],
+        });
+
+        expect(rules.map(rule => rule.id)).toEqual(['email', 'phone', 'mild', 'url']);
+        expect(filterScriptContent({ title: 'Zounds!' }, rules).flagged).toHaveLength(1);
+        expect(() => filterScriptContent({ title: 'HTTP://x.example' }, rules)).toThrow(AppError);
+    });
+
+    it('should refuse a rule without a word list or pattern', () => {
+        expect(() => loadRulesFrom({ rules: [{ id: 'empty', action: 'reject' }] }, 'invalid.json')).toThrow();
+    });
+
+    it('should use the file named by CONTENT_FILTER_CONFIG', () => {
+        const file = path.join(tmpDir, 'env.json');
+        fs.writeFileSync(file, JSON.stringify({ useDefaults: false, rules: [] }));
+
+        expect(getFilterRules()).toBe(DEFAULT_FILTER_RULES);
+        vi.stubEnv('CONTENT_FILTER_CONFIG', file);
+        expect(getFilterRules()).toEqual([]);
+    });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { contentFilterConfigSchema, FilterAction, FilterRuleConfig } from '../schemas/contentFilterSchema';
+import { ScriptLine } from '../schemas/scriptSchema';
+import { AppError } from '../middleware/errorHandler';
+import { getContentFilterConfigPath } from '../config';
+
+export interface FilterRule {
+    id: string;
+    action: FilterAction;
+    pattern: RegExp; // Always global
+    message: string;
+}
+
+// A rule matching a field, e.g. { path: 'lines.2.dialogue', rule: 'url', ... }
+export interface FilterMatch {
+    path: string;
+    rule: string;
+    action: FilterAction;
+    message: string;
+}
+
+// Built-in rules for spam links and personal data. Word lists (profanity, slurs) are instance-specific
+// and come from the config file.
+export const DEFAULT_FILTER_RULES: FilterRule[] = [
+    { id: 'url', action: 'flag', pattern: /\b(?:https?:\/\/|www\.)\S+/gi, message: 'Links are not allowed' },
+    { id: 'email', action: 'mask', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, message: 'Email addresses are not allowed' },
+    { id: 'phone', action: 'mask', pattern: /(?<!\w)(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\w)/g, message: 'Phone numbers are not allowed' },
+];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Match any of the words as a whole word, case-insensitively ("ass" doesn't match "class")
+const wordListPattern = (words: string[]): RegExp =>
+    new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegex).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+// Word list files have one word or phrase per line, '#' starts a comment
+const readWordsFile = (file: string): string[] =>
+    fs.readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*/, '').trim())
+        .filter(line => line);
+
+const buildRule = (config: FilterRuleConfig, baseDir: string): FilterRule => {
+    let pattern: RegExp;
+    if (config.pattern !== undefined) {
+        const flags = Array.from(new Set(`${config.flags ?? ''}g`)).join('');
+        pattern = new RegExp(config.pattern, flags);
+    } else {
+        const words = config.words ?? readWordsFile(path.resolve(baseDir, config.wordsFile!));
+        // An empty list never matches
+        pattern = words.length > 0 ? wordListPattern(words) : /(?!)/g;
+    }
+    return { id: config.id, action: config.action, pattern, message: config.message ?? `Content not allowed (${config.id})` };
+};
+
+// Parse a config file into rules (defaults first, overridden by id)
+export const loadFilterRules = (configPath: string): FilterRule[] => {
+    const config = contentFilterConfigSchema.parse(JSON.parse(fs.readFileSync(configPath, 'utf8')));
+    const rules = config.rules.map(rule => buildRule(rule, path.dirname(configPath)));
+    const defaults = config.useDefaults
+        ? DEFAULT_FILTER_RULES.filter(rule => !rules.some(custom => custom.id === rule.id))
+        : [];
+    return [...defaults, ...rules];
+};
+
+// Rules are loaded once per config path
+let cachedRules: { configPath: string | undefined; rules: FilterRule[] } | null = null;
+
+export const getFilterRules = (): FilterRule[] => {
+    const configPath = getContentFilterConfigPath();
+    if (!cachedRules || cachedRules.configPath !== configPath) {
+        cachedRules = { configPath, rules: configPath ? loadFilterRules(configPath) : DEFAULT_FILTER_RULES };
+    }
+    return cachedRules.rules;
+};
+
+// Run every rule over one text field, returning the (possibly masked) text
+const filterText = (text: string, fieldPath: string, rules: FilterRule[], matches: FilterMatch[]): string => {
+    let result = text;
+    for (const rule of rules) {
+        rule.pattern.lastIndex = 0;
+        if (!rule.pattern.test(result)) continue;
+        matches.push({ path: fieldPath, rule: rule.id, action: rule.action, message: rule.message });
+        if (rule.action === 'mask') {
+            result = result.replace(rule.pattern, match => '*'.repeat(match.length));
+        }
+    }
+    return result;
+};
+
+export interface FilterableContent {
+    title?: string | null;
+    characters?: string[];
+    lines?: ScriptLine[];
+}
+
+// Screen a script's title, cast and line text. Masked text is applied to the returned content;
+// any 'reject' match throws a 422 AppError listing every rejected field.
+export const filterScriptContent = <T extends FilterableContent>(content: T, rules: FilterRule[] = getFilterRules()) => {
+    const matches: FilterMatch[] = [];
+    const filtered: T = { ...content };
+
+    if (typeof content.title === 'string') {
+        filtered.title = filterText(content.title, 'title', rules, matches);
+    }
+    if (content.characters) {
+        filtered.characters = content.characters.map((name, i) => filterText(name, `characters.${i}`, rules, matches));
+    }
+    if (content.lines) {
+        filtered.lines = content.lines.map((line, i) => {
+            const filteredLine: Record<string, any> = { ...line };
+            for (const field of ['character', 'dialogue', 'text']) {
+                if (typeof filteredLine[field] === 'string') {
+                    filteredLine[field] = filterText(filteredLine[field], `lines.${i}.${field}`, rules, matches);
+                }
+            }
+            return filteredLine as ScriptLine;
+        });
+    }
+
+    const rejected = matches.filter(match => match.action === 'reject');
+    if (rejected.length > 0) {
+        throw new AppError('Submission rejected by the content filter', 422,
+            rejected.map(({ path: fieldPath, rule, message }) => ({ path: fieldPath, rule, message })));
+    }
+
+    return { content: filtered, flagged: matches.filter(match => match.action === 'flag') };
+};
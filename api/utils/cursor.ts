@@ -0,0 +1,18 @@
+import { AppError } from '../middleware/errorHandler';
+
+// Opaque pagination cursors: base64url-encoded JSON, so clients can't depend on (or tamper with) their shape
+
+export const encodeCursor = (position: Record<string, unknown>): string =>
+    Buffer.from(JSON.stringify(position)).toString('base64url');
+
+export const decodeCursor = <T extends Record<string, unknown>>(cursor: string): T => {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (!position || typeof position !== 'object' || Array.isArray(position)) {
+            throw new Error('Cursor is not an object');
+        }
+        return position as T;
+    } catch {
+        throw new AppError('Invalid cursor parameter.', 400);
+    }
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { parseFacets, parseLineBucket, parseMonth, facetQuerySql, formatFacet } from './facets';
+import { AppError } from '../middleware/errorHandler';
+
+describe('parseFacets', () => {
+    it('should accept comma-separated and repeated facet names', () => {
+        expect(parseFacets('character, TAG')).toEqual(['character', 'tag']);
+        expect(parseFacets(['lines', 'month,lines'])).toEqual(['lines', 'month']);
+        expect(parseFacets(undefined)).toEqual([]);
+    });
+
+    it('should reject unknown facets with a 400', () => {
+        expect(() => parseFacets('character,author')).toThrow(AppError);
+    });
+});
+
+describe('facet filters', () => {
+    it('should only accept known line buckets', () => {
+        expect(parseLineBucket('6-10')).toEqual({ key: '6-10', min: 6, max: 10 });
+        expect(() => parseLineBucket('7-9')).toThrow(AppError);
+    });
+
+    it('should turn a month into its UTC range', () => {
+        expect(parseMonth('2025-12')).toEqual({
+            month: '2025-12',
+            start: new Date('2025-12-01T00:00:00Z'),
+            end: new Date('2026-01-01T00:00:00Z'),
+        });
+        expect(() => parseMonth('2025-13')).toThrow(AppError);
+        expect(() => parseMonth('May 2025')).toThrow(AppError);
+    });
+});
+
+describe('facetQuerySql', () => {
+    it('should count over the given WHERE clause', () => {
+        const query = facetQuerySql('character', Prisma.sql`WHERE status = ${'approved'}`);
+        expect(query.sql).toContain('unnest(characters) AS facet(value)');
+        expect(query.sql).toContain('WHERE status = ?');
+        expect(query.values[0]).toBe('approved');
+    });
+});
+
+describe('formatFacet', () => {
+    it('should convert counts and attach the query that selects each value', () => {
+        expect(formatFacet('tag', [{ value: 'noir', count: BigInt(3) }])).toEqual([
+            { value: 'noir', count: 3, query: { tags: 'noir' } },
+        ]);
+    });
+
+    it('should list every line bucket in order, including empty ones', () => {
+        expect(formatFacet('lines', [{ value: '11-20', count: BigInt(2) }, { value: null, count: BigInt(1) }])).toEqual([
+            { value: '1-5', count: 0, query: { lines: '1-5' } },
+            { value: '6-10', count: 0, query: { lines: '6-10' } },
+            { value: '11-20', count: 2, query: { lines: '11-20' } },
+            { value: '21+', count: 0, query: { lines: '21+' } },
+        ]);
+    });
+});
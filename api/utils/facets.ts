@@ -0,0 +1,124 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { lineCountSql } from './scriptLines';
+
+// Facets GET /api/scripts can count for the current result set (facets=character,tag,lines,month).
+// Every facet value comes with the query parameters that narrow the list to it.
+export const FACET_NAMES = ['character', 'tag', 'lines', 'month'] as const;
+export type FacetName = typeof FACET_NAMES[number];
+
+export interface FacetValue {
+    value: string;
+    count: number;
+    query: Record<string, string>;
+}
+
+// Most common values returned for the open-ended facets
+export const MAX_FACET_VALUES = 20;
+// Months are listed newest first, at most two years' worth
+export const MAX_FACET_MONTHS = 24;
+
+// Line-count buckets (the 'lines' facet and filter); the last one is open-ended
+export const LINE_COUNT_BUCKETS: { key: string; min: number; max?: number }[] = [
+    { key: '1-5', min: 1, max: 5 },
+    { key: '6-10', min: 6, max: 10 },
+    { key: '11-20', min: 11, max: 20 },
+    { key: '21+', min: 21 },
+];
+
+// Parse the 'facets' query parameter (comma-separated and/or repeated)
+export const parseFacets = (value: unknown): FacetName[] => {
+    const names = Array.from(new Set((Array.isArray(value) ? value : [value ?? ''])
+        .flatMap(entry => String(entry).split(','))
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name)));
+
+    const unknown = names.filter(name => !(FACET_NAMES as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+        throw new AppError(`Invalid facets parameter. Unknown facet(s): ${unknown.join(', ')}. Must be any of: ${FACET_NAMES.join(', ')}.`, 400);
+    }
+    return names as FacetName[];
+};
+
+// 'lines' filter: one of the bucket keys
+export const parseLineBucket = (value: unknown) => {
+    const bucket = LINE_COUNT_BUCKETS.find(candidate => candidate.key === String(value).trim());
+    if (!bucket) {
+        throw new AppError(`Invalid lines parameter. Must be one of: ${LINE_COUNT_BUCKETS.map(candidate => candidate.key).join(', ')}.`, 400);
+    }
+    return bucket;
+};
+
+export const lineBucketSql = (bucket: { min: number; max?: number }) => bucket.max === undefined
+    ? Prisma.sql`${lineCountSql} >= ${bucket.min}`
+    : Prisma.sql`${lineCountSql} BETWEEN ${bucket.min} AND ${bucket.max}`;
+
+// 'month' filter: YYYY-MM (UTC), returned as the half-open range it covers
+export const parseMonth = (value: unknown): { month: string; start: Date; end: Date } => {
+    const month = String(value).trim();
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+    if (!match) {
+        throw new AppError('Invalid month parameter. Must be in YYYY-MM format.', 400);
+    }
+    const year = Number(match[1]);
+    const monthIndex = Number(match[2]) - 1;
+    return { month, start: new Date(Date.UTC(year, monthIndex, 1)), end: new Date(Date.UTC(year, monthIndex + 1, 1)) };
+};
+
+// Counting query for one facet over the scripts matching whereClause
+export const facetQuerySql = (facet: FacetName, whereClause: Prisma.Sql): Prisma.Sql => {
+    switch (facet) {
+        case 'character':
+            return Prisma.sql`
+                SELECT facet.value, COUNT(*) AS count
+                FROM script_snips, unnest(characters) AS facet(value)
+                ${whereClause}
+                GROUP BY facet.value
+                ORDER BY count DESC, facet.value ASC
+                LIMIT ${MAX_FACET_VALUES};
+            `;
+        case 'tag':
+            return Prisma.sql`
+                SELECT facet.value, COUNT(*) AS count
+                FROM script_snips, unnest(tags) AS facet(value)
+                ${whereClause}
+                GROUP BY facet.value
+                ORDER BY count DESC, facet.value ASC
+                LIMIT ${MAX_FACET_VALUES};
+            `;
+        case 'lines':
+            return Prisma.sql`
+                SELECT CASE ${Prisma.join(LINE_COUNT_BUCKETS.map(bucket =>
+                    Prisma.sql`WHEN ${lineBucketSql(bucket)} THEN ${bucket.key}`), ' ')} END AS value,
+                    COUNT(*) AS count
+                FROM script_snips
+                ${whereClause}
+                GROUP BY 1;
+            `;
+        case 'month':
+            return Prisma.sql`
+                SELECT to_char("createdAt", 'YYYY-MM') AS value, COUNT(*) AS count
+                FROM script_snips
+                ${whereClause}
+                GROUP BY 1
+                ORDER BY 1 DESC
+                LIMIT ${MAX_FACET_MONTHS};
+            `;
+    }
+};
+
+// Query parameters that select a facet value
+const FACET_PARAMS: Record<FacetName, string> = { character: 'character', tag: 'tags', lines: 'lines', month: 'month' };
+
+// Shape the rows of a facet query (COUNT(*) comes back as BigInt).
+// Line buckets are always listed in order, including empty ones.
+export const formatFacet = (facet: FacetName, rows: { value: string | null; count: bigint | number }[]): FacetValue[] => {
+    const toValue = (value: string, count: number) => ({ value, count, query: { [FACET_PARAMS[facet]]: value } });
+    if (facet === 'lines') {
+        return LINE_COUNT_BUCKETS.map(bucket =>
+            toValue(bucket.key, Number(rows.find(row => row.value === bucket.key)?.count ?? 0)));
+    }
+    return rows
+        .filter((row): row is { value: string; count: bigint | number } => row.value !== null)
+        .map(row => toValue(row.value, Number(row.count)));
+};
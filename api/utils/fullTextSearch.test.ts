@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { escapeHighlight, formatHighlights, searchMatchSql, searchRankSql } from './fullTextSearch';
+
+describe('escapeHighlight', () => {
+    it('should keep the <mark> tags and escape everything else', () => {
+        expect(escapeHighlight('Readings are <b>off</b> the <mark>charts</mark> & rising'))
+            .toBe('Readings are &lt;b&gt;off&lt;/b&gt; the <mark>charts</mark> &amp; rising');
+    });
+});
+
+describe('formatHighlights', () => {
+    it('should escape the title and line fragments', () => {
+        expect(formatHighlights({
+            title: '<mark>Bridge</mark> "Crisis"',
+            characters: ['Jax'],
+            lines: [{ index: 2, type: 'dialogue', character: 'Jax', fragment: '<mark>Readings</mark> <3' }],
+        })).toEqual({
+            title: '<mark>Bridge</mark> &quot;Crisis&quot;',
+            characters: ['Jax'],
+            lines: [{ index: 2, type: 'dialogue', character: 'Jax', fragment: '<mark>Readings</mark> &lt;3' }],
+        });
+    });
+
+    it('should leave a title without matches as null', () => {
+        expect(formatHighlights({ title: null, characters: [], lines: [] }).title).toBeNull();
+    });
+});
+
+describe('search SQL', () => {
+    it('should pass the search terms as parameters', () => {
+        const match = searchMatchSql("readings'; DROP TABLE script_snips; --");
+        expect(match.sql).toContain('"searchDocument" @@ websearch_to_tsquery');
+        expect(match.values).toEqual(["readings'; DROP TABLE script_snips; --"]);
+        expect(searchRankSql('readings').sql).toContain('ts_rank_cd("searchDocument"');
+    });
+});
@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { lineTextSql } from './scriptLines';
+
+// Full-text search over the "searchDocument" column (title A, cast B, line text C; kept up to date by a trigger).
+// websearch_to_tsquery accepts whatever users type ("quoted phrases", -exclusions, or) and never raises a syntax error.
+const searchQuerySql = (search: string) => Prisma.sql`websearch_to_tsquery('english', ${search})`;
+
+// Matches are wrapped in <mark> tags; the rest of each fragment is HTML-escaped before it is returned
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=5, HighlightAll=false';
+
+// How many matching lines are highlighted per script
+export const MAX_HIGHLIGHTED_LINES = 3;
+
+export const searchMatchSql = (search: string) => Prisma.sql`"searchDocument" @@ ${searchQuerySql(search)}`;
+
+// Words in this order (stemmed, stop words skipped), for single terms and quoted phrases in q= queries
+export const phraseMatchSql = (phrase: string) => Prisma.sql`"searchDocument" @@ phraseto_tsquery('english', ${phrase})`;
+
+// Relevance of the script_snips row in the surrounding query (for sortBy=relevance)
+export const searchRankSql = (search: string) => Prisma.sql`ts_rank_cd("searchDocument", ${searchQuerySql(search)})`;
+
+// A JSON "highlights" column saying where the search matched: the title, cast entries and the first few lines
+// (with their index in the script) that contain the terms.
+export const searchHighlightsSql = (search: string) => Prisma.sql`json_build_object(
+    'title', CASE WHEN to_tsvector('english', COALESCE("title", '')) @@ ${searchQuerySql(search)}
+        THEN ts_headline('english', "title", ${searchQuerySql(search)}, ${HEADLINE_OPTIONS}) END,
+    'characters', COALESCE((
+        SELECT json_agg(name) FROM unnest("characters") AS name
+        WHERE to_tsvector('english', name) @@ ${searchQuerySql(search)}
+    ), '[]'::json),
+    'lines', COALESCE((
+        SELECT json_agg(json_build_object(
+            'index', matched.index,
+            'type', matched.type,
+            'character', matched.character,
+            'fragment', ts_headline('english', matched.text, ${searchQuerySql(search)}, ${HEADLINE_OPTIONS})
+        ) ORDER BY matched.index)
+        FROM (
+            SELECT (position - 1)::int AS index, COALESCE(line->>'type', 'dialogue') AS type,
+                line->>'character' AS character, ${lineTextSql} AS text
+            FROM jsonb_array_elements("lines") WITH ORDINALITY AS numbered(line, position)
+            WHERE to_tsvector('english', ${lineTextSql}) @@ ${searchQuerySql(search)}
+            ORDER BY position
+            LIMIT ${MAX_HIGHLIGHTED_LINES}
+        ) AS matched
+    ), '[]'::json)
+) AS highlights`;
+
+export interface SearchHighlights {
+    title: string | null;
+    characters: string[];
+    lines: { index: number; type: string; character: string | null; fragment: string }[];
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Escape a ts_headline fragment so only the <mark> tags it added are markup
+export const escapeHighlight = (fragment: string) =>
+    escapeHtml(fragment).replace(/&lt;(\/?)mark&gt;/g, '<$1mark>');
+
+export const formatHighlights = (highlights: SearchHighlights): SearchHighlights => ({
+    title: highlights.title === null ? null : escapeHighlight(highlights.title),
+    characters: highlights.characters,
+    lines: highlights.lines.map(line => ({ ...line, fragment: escapeHighlight(line.fragment) })),
+});
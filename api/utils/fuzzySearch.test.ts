@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { buildSuggestions, searchWords, suggestionQuerySql, fuzzyMatchSql, FUZZY_MATCH_THRESHOLD } from './fuzzySearch';
+
+describe('searchWords', () => {
+    it('should lower-case and de-duplicate the words of a search', () => {
+        expect(searchWords('Captain Rostva, captain!')).toEqual(['captain', 'rostva']);
+        expect(searchWords("don't panic")).toEqual(["don't", 'panic']);
+    });
+});
+
+describe('buildSuggestions', () => {
+    it('should replace misspelled words with the closest corpus words, runners-up next', () => {
+        const rows = [
+            { term: 'alchemest', word: 'alchemist', score: 0.6 },
+            { term: 'alchemest', word: 'alchemy', score: 0.4 },
+            { term: 'lab', word: 'lab', score: 1 },
+        ];
+        expect(buildSuggestions('the Alchemest lab', rows)).toEqual(['the alchemist lab', 'the alchemy lab']);
+    });
+
+    it('should suggest nothing when no word has a close match', () => {
+        expect(buildSuggestions('zzxqv', [])).toEqual([]);
+        expect(buildSuggestions('lab', [{ term: 'lab', word: 'lab', score: 1 }])).toEqual([]);
+    });
+});
+
+describe('fuzzy search SQL', () => {
+    it('should pass the search and words as parameters', () => {
+        const match = fuzzyMatchSql('Rostva');
+        expect(match.sql).toContain('word_similarity(?, COALESCE(script_snips.title');
+        expect(match.values).toEqual(['Rostva', 'Rostva', 'Rostva', FUZZY_MATCH_THRESHOLD]);
+        expect(suggestionQuerySql(['rostva']).values[0]).toEqual(['rostva']);
+    });
+
+    it('should match and suggest words from every line type, not just dialogue', () => {
+        expect(fuzzyMatchSql('observatroy').sql).toContain(`COALESCE(line->>'dialogue', line->>'text', '')`);
+        expect(suggestionQuerySql(['observatroy']).sql).toContain(`COALESCE(line->>'dialogue', line->>'text', '')`);
+    });
+});
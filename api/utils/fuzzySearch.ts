@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+import { scriptTextSql } from './scriptLines';
+import { visibleScriptSql } from './visibility';
+
+// Typo-tolerant search (fuzzy=true) and "did you mean" suggestions, both on pg_trgm trigram similarity.
+
+// How close (0-1) the search has to come to some part of a title, the cast or the line text to match
+export const FUZZY_MATCH_THRESHOLD = 0.4;
+// How close a corpus word has to be to a search word to be suggested instead
+export const SUGGESTION_THRESHOLD = 0.3;
+export const MAX_SUGGESTIONS = 3;
+
+// Closeness of the script_snips row in the surrounding query: the best word_similarity of the search
+// against its title, cast or line text (1 = contains the search exactly)
+export const fuzzyScoreSql = (search: string) => Prisma.sql`GREATEST(
+    word_similarity(${search}, COALESCE(script_snips.title, '')),
+    word_similarity(${search}, array_to_string(script_snips.characters, ' ')),
+    word_similarity(${search}, ${scriptTextSql})
+)`;
+
+export const fuzzyMatchSql = (search: string) => Prisma.sql`${fuzzyScoreSql(search)} >= ${FUZZY_MATCH_THRESHOLD}`;
+
+// Lower-cased words of a search, as matched against the vocabulary
+export const searchWords = (search: string): string[] =>
+    Array.from(new Set(search.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(word => word)));
+
+// For every search word, the visible corpus words (titles, cast names, line text) that look like it, closest first
+export const suggestionQuerySql = (words: string[]) => Prisma.sql`
+    WITH vocabulary AS (
+        SELECT DISTINCT lower(word) AS word
+        FROM script_snips,
+            regexp_split_to_table(
+                COALESCE(title, '') || ' ' || array_to_string(characters, ' ') || ' ' || ${scriptTextSql},
+                '[^[:alnum:]'']+'
+            ) AS word
+        WHERE ${visibleScriptSql} AND length(word) >= 3
+    )
+    SELECT term, vocabulary.word, similarity(term, vocabulary.word) AS score
+    FROM unnest(${words}::text[]) AS term, vocabulary
+    WHERE similarity(term, vocabulary.word) >= ${SUGGESTION_THRESHOLD}
+    ORDER BY term, score DESC, vocabulary.word ASC;
+`;
+
+// Turn the vocabulary matches into corrected search strings: the first uses the closest word for every
+// misspelled search word, the next ones the runners-up. Words found as they are stay untouched.
+export const buildSuggestions = (
+    search: string,
+    rows: { term: string; word: string; score: number }[]
+): string[] => {
+    const candidates = new Map<string, string[]>();
+    for (const { term, word } of rows) {
+        candidates.set(term, [...(candidates.get(term) ?? []), word]);
+    }
+    const words = searchWords(search);
+    const corrections = words.map(word => {
+        const found = candidates.get(word) ?? [];
+        return found.includes(word) ? [] : found.slice(0, MAX_SUGGESTIONS);
+    });
+    if (corrections.every(alternatives => alternatives.length === 0)) {
+        return [];
+    }
+
+    const suggestions = new Set<string>();
+    for (let rank = 0; rank < MAX_SUGGESTIONS; rank++) {
+        suggestions.add(words
+            .map((word, index) => corrections[index][Math.min(rank, corrections[index].length - 1)] ?? word)
+            .join(' '));
+    }
+    return Array.from(suggestions);
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { keysetConditionSql, keysetOrderSql, nextScriptCursor } from './keysetPagination';
+import { encodeCursor } from './cursor';
+import { AppError } from '../middleware/errorHandler';
+
+describe('keyset pagination', () => {
+    it('should round-trip a createdAt cursor into a row comparison', () => {
+        const createdAt = new Date('2025-05-20T10:00:00.123Z');
+        const cursor = nextScriptCursor({ sortBy: 'createdAt', sortOrder: 'desc' }, { id: 's9', cursorKey: createdAt });
+
+        const condition = keysetConditionSql({ sortBy: 'createdAt', sortOrder: 'desc' }, cursor);
+        expect(condition.sql).toBe('("createdAt", id) < (?, ?)');
+        expect(condition.values).toEqual([createdAt, 's9']);
+    });
+
+    it('should compare lower-cased titles going forward for ascending order', () => {
+        const cursor = nextScriptCursor({ sortBy: 'title', sortOrder: 'asc' }, { id: 's2', cursorKey: 'bridge crisis' });
+
+        const condition = keysetConditionSql({ sortBy: 'title', sortOrder: 'asc' }, cursor);
+        expect(condition.sql).toBe(`(COALESCE(LOWER("title"), ''), id) > (?, ?)`);
+        expect(condition.values).toEqual(['bridge crisis', 's2']);
+        expect(keysetOrderSql({ sortBy: 'title', sortOrder: 'asc' }).sql).toBe(`ORDER BY COALESCE(LOWER("title"), '') asc, id asc`);
+    });
+
+    it('should reject cursors for another sort and malformed cursors', () => {
+        const titleCursor = nextScriptCursor({ sortBy: 'title', sortOrder: 'asc' }, { id: 's2', cursorKey: 'a' });
+        expect(() => keysetConditionSql({ sortBy: 'title', sortOrder: 'desc' }, titleCursor)).toThrow(/different sortBy/);
+        expect(() => keysetConditionSql({ sortBy: 'createdAt', sortOrder: 'desc' }, 'not-a-cursor')).toThrow(AppError);
+        const badDate = encodeCursor({ sortBy: 'createdAt', sortOrder: 'desc', key: 'yesterday', id: 's1' });
+        expect(() => keysetConditionSql({ sortBy: 'createdAt', sortOrder: 'desc' }, badDate)).toThrow(AppError);
+    });
+});
@@ -0,0 +1,54 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { decodeCursor, encodeCursor } from './cursor';
+
+// Cursor (keyset) pagination for GET /api/scripts: each page continues after the last row of the previous one,
+// keyed on the sort field plus the ID, so rows added in the meantime don't shift or repeat items.
+
+// Sorts with a stable key a cursor can point into
+export const KEYSET_SORT_FIELDS = ['createdAt', 'title'];
+
+type KeysetSort = { sortBy: string; sortOrder: string };
+type ScriptCursor = { sortBy: string; sortOrder: string; key: string; id: string };
+
+// The value rows are ordered by (titles compare case-insensitively, scripts without one sort as '')
+const sortKeySql = (sortBy: string) => sortBy === 'title'
+    ? Prisma.sql`COALESCE(LOWER("title"), '')`
+    : Prisma.sql`"createdAt"`;
+
+// Extra column carrying each row's sort key, so the next cursor holds exactly what the database compared
+export const cursorKeyColumnSql = (sortBy: string) => Prisma.sql`${sortKeySql(sortBy)} AS "cursorKey"`;
+
+export const keysetOrderSql = ({ sortBy, sortOrder }: KeysetSort) =>
+    Prisma.sql`ORDER BY ${sortKeySql(sortBy)} ${Prisma.raw(sortOrder)}, id ${Prisma.raw(sortOrder)}`;
+
+// Rows after the cursor position in the current sort direction
+export const keysetConditionSql = ({ sortBy, sortOrder }: KeysetSort, cursor: string): Prisma.Sql => {
+    const position = decodeCursor<ScriptCursor>(cursor);
+    if (typeof position.key !== 'string' || typeof position.id !== 'string') {
+        throw new AppError('Invalid cursor parameter.', 400);
+    }
+    // A cursor only makes sense for the ordering it was taken from
+    if (position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+        throw new AppError('Invalid cursor parameter. It was issued for a different sortBy/sortOrder.', 400);
+    }
+
+    let key: string | Date = position.key;
+    if (sortBy === 'createdAt') {
+        key = new Date(position.key);
+        if (isNaN(key.getTime())) {
+            throw new AppError('Invalid cursor parameter.', 400);
+        }
+    }
+    const comparison = Prisma.raw(sortOrder === 'asc' ? '>' : '<');
+    return Prisma.sql`(${sortKeySql(sortBy)}, id) ${comparison} (${key}, ${position.id})`;
+};
+
+// Cursor for the page after the given row (selected with cursorKeyColumnSql)
+export const nextScriptCursor = ({ sortBy, sortOrder }: KeysetSort, row: { id: string; cursorKey: string | Date }): string =>
+    encodeCursor({
+        sortBy,
+        sortOrder,
+        key: row.cursorKey instanceof Date ? row.cursorKey.toISOString() : row.cursorKey,
+        id: row.id,
+    });
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseLanguageFilter, languageFilterWhere } from './language';
+import { AppError } from '../middleware/errorHandler';
+
+describe('parseLanguageFilter', () => {
+    it('should canonicalize and de-duplicate comma-separated and repeated tags', () => {
+        expect(parseLanguageFilter('EN-us, pt-br')).toEqual(['en-US', 'pt-BR']);
+        expect(parseLanguageFilter(['de', 'DE,fr'])).toEqual(['de', 'fr']);
+    });
+
+    it('should return no languages when the parameter is missing or empty', () => {
+        expect(parseLanguageFilter(undefined)).toEqual([]);
+        expect(parseLanguageFilter(' , ')).toEqual([]);
+    });
+
+    it('should reject malformed tags with a 400', () => {
+        expect(() => parseLanguageFilter('en_US!')).toThrow(AppError);
+        try {
+            parseLanguageFilter('en,??');
+        } catch (error) {
+            expect((error as AppError).statusCode).toBe(400);
+        }
+    });
+});
+
+describe('languageFilterWhere', () => {
+    it('should match each tag and its regional variants', () => {
+        expect(languageFilterWhere(['en'])).toEqual({
+            OR: [{ language: 'en' }, { language: { startsWith: 'en-' } }],
+        });
+    });
+});
@@ -0,0 +1,30 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { languageSchema } from '../schemas/scriptSchema';
+
+// Parse the 'lang' query parameter (comma-separated and/or repeated) into canonical language tags
+export const parseLanguageFilter = (value: unknown): string[] => {
+    const rawTags = (Array.isArray(value) ? value : [value ?? ''])
+        .flatMap(entry => String(entry).split(','))
+        .map(tag => tag.trim())
+        .filter(tag => tag);
+
+    return Array.from(new Set(rawTags.map(tag => {
+        const parsed = languageSchema.safeParse(tag);
+        if (!parsed.success) {
+            throw new AppError(`Invalid lang parameter. "${tag}" is not a valid BCP-47 language tag.`, 400);
+        }
+        return parsed.data;
+    })));
+};
+
+// A tag matches itself and its more specific variants: "en" matches "en", "en-US" and "en-GB", "en-US" only "en-US".
+// Keep the Prisma and raw SQL versions in sync.
+export const languageFilterWhere = (languages: string[]): Prisma.ScriptSnipWhereInput => ({
+    OR: languages.flatMap(language => [{ language }, { language: { startsWith: `${language}-` } }]),
+});
+
+export const languageFilterSql = (languages: string[]) => Prisma.sql`(
+    "language" = ANY(${languages}::text[]) OR
+    EXISTS (SELECT 1 FROM unnest(${languages}::text[]) AS lang WHERE "language" LIKE lang || '-%')
+)`;
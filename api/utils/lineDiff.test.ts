@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffStringLists } from './lineDiff';
+import { ScriptLine } from '../schemas/scriptSchema';
+
+const say = (character: string, dialogue: string): ScriptLine => ({ type: 'dialogue', character, dialogue });
+
+describe('Line Diff', () => {
+    it('should mark identical lines as equal', () => {
+        const lines = [say('A', 'Hi'), say('B', 'Hello')];
+        expect(diffLines(lines, lines).every(entry => entry.op === 'equal')).toBe(true);
+    });
+
+    it('should detect added, removed and changed lines in order', () => {
+        const from = [say('A', 'Hi'), say('B', 'Hello'), say('A', 'Bye')];
+        const to = [say('A', 'Hi'), say('B', 'Hello there'), say('A', 'Bye'), { type: 'transition', text: 'FADE OUT.' } as ScriptLine];
+
+        expect(diffLines(from, to).map(entry => [entry.op, entry.fromIndex, entry.toIndex])).toEqual([
+            ['equal', 0, 0],
+            ['removed', 1, undefined],
+            ['added', undefined, 1],
+            ['equal', 2, 2],
+            ['added', undefined, 3],
+        ]);
+    });
+
+    it('should treat the same text from a different speaker as a change', () => {
+        const ops = diffLines([say('A', 'Run!')], [say('B', 'Run!')]).map(entry => entry.op);
+        expect(ops).toEqual(['removed', 'added']);
+    });
+
+    it('should diff string lists', () => {
+        expect(diffStringLists(['A', 'B'], ['B', 'C'])).toEqual({ added: ['C'], removed: ['A'] });
+    });
+});
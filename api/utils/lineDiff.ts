@@ -0,0 +1,54 @@
+import { ScriptLine } from '../schemas/scriptSchema';
+import { getLineCharacter, getLineText } from './scriptLines';
+
+export interface LineDiffEntry {
+    op: 'equal' | 'added' | 'removed';
+    line: ScriptLine;
+    fromIndex?: number; // Position in the 'from' lines (equal/removed)
+    toIndex?: number;   // Position in the 'to' lines (equal/added)
+}
+
+// Two lines are the same if their type, character and text match
+const lineKey = (line: ScriptLine): string =>
+    [line.type, getLineCharacter(line) ?? '', getLineText(line)].join('\u0000');
+
+// Line-level diff (longest common subsequence), listing every line of both versions in order
+export const diffLines = (from: ScriptLine[], to: ScriptLine[]): LineDiffEntry[] => {
+    const fromKeys = from.map(lineKey);
+    const toKeys = to.map(lineKey);
+
+    // lcs[i][j] = length of the longest common subsequence of from[i..] and to[j..]
+    const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+    for (let i = from.length - 1; i >= 0; i--) {
+        for (let j = to.length - 1; j >= 0; j--) {
+            lcs[i][j] = fromKeys[i] === toKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const entries: LineDiffEntry[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < from.length && j < to.length) {
+        if (fromKeys[i] === toKeys[j]) {
+            entries.push({ op: 'equal', line: to[j], fromIndex: i, toIndex: j });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            entries.push({ op: 'removed', line: from[i], fromIndex: i });
+            i++;
+        } else {
+            entries.push({ op: 'added', line: to[j], toIndex: j });
+            j++;
+        }
+    }
+    for (; i < from.length; i++) entries.push({ op: 'removed', line: from[i], fromIndex: i });
+    for (; j < to.length; j++) entries.push({ op: 'added', line: to[j], toIndex: j });
+
+    return entries;
+};
+
+// Added/removed entries between two string lists (cast, tags)
+export const diffStringLists = (from: string[], to: string[]) => ({
+    added: to.filter(value => !from.includes(value)),
+    removed: from.filter(value => !to.includes(value)),
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { initialModeration, moderationAfterEdit } from './moderation';
+
+describe('Moderation Helpers', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should publish new scripts right away by default', () => {
+        expect(initialModeration()).toEqual({ status: 'approved' });
+    });
+
+    it('should queue new scripts for review when MODERATION_DEFAULT_STATUS is pending', () => {
+        vi.stubEnv('MODERATION_DEFAULT_STATUS', 'pending');
+        expect(initialModeration()).toEqual({ status: 'pending' });
+    });
+
+    it('should fall back to approved for an unknown setting', () => {
+        vi.stubEnv('MODERATION_DEFAULT_STATUS', 'sometimes');
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(initialModeration()).toEqual({ status: 'approved' });
+    });
+
+    it('should leave approved scripts alone on edit when submissions are published right away', () => {
+        expect(moderationAfterEdit('approved', false)).toEqual({});
+    });
+
+    it('should resubmit rejected scripts for review when they are edited', () => {
+        expect(moderationAfterEdit('rejected', false)).toEqual({ status: 'pending', moderationReason: null, moderatedAt: null });
+    });
+
+    it('should send every edit back for review when submissions need approval', () => {
+        vi.stubEnv('MODERATION_DEFAULT_STATUS', 'pending');
+        expect(moderationAfterEdit('approved', false)).toEqual(expect.objectContaining({ status: 'pending' }));
+    });
+
+    it('should hold flagged content for review with the matches as the reason', () => {
+        const flagged = [{ path: 'lines.0.dialogue', rule: 'url', action: 'flag' as const, message: 'Links are not allowed' }];
+        expect(initialModeration(flagged)).toEqual({
+            status: 'pending',
+            moderationReason: 'Held for review by the content filter: url in lines.0.dialogue',
+            moderatedAt: null,
+        });
+        expect(moderationAfterEdit('approved', false, flagged)).toEqual(expect.objectContaining({ status: 'pending' }));
+        expect(moderationAfterEdit('approved', true, flagged)).toEqual({});
+    });
+
+    it('should never change the review state of admin edits', () => {
+        vi.stubEnv('MODERATION_DEFAULT_STATUS', 'pending');
+        expect(moderationAfterEdit('rejected', true)).toEqual({});
+    });
+});
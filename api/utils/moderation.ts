@@ -0,0 +1,30 @@
+import { ModerationStatus } from '@prisma/client';
+import { getModerationDefaultStatus } from '../config';
+import { FilterMatch } from './contentFilter';
+
+// Moderation fields for content the content filter flagged: held in the review queue, with the matches as the reason
+const heldForReview = (flagged: FilterMatch[]) => ({
+    status: ModerationStatus.pending,
+    moderationReason: `Held for review by the content filter: ${flagged.map(match => `${match.rule} in ${match.path}`).join(', ')}`,
+    moderatedAt: null,
+});
+
+// Moderation fields for a newly submitted script
+export const initialModeration = (flagged: FilterMatch[] = []) =>
+    flagged.length > 0 ? heldForReview(flagged) : { status: getModerationDefaultStatus() as ModerationStatus };
+
+// Moderation fields to apply when a script's content changes.
+// Edits go back into the review queue when new submissions need review, when the script had been rejected
+// or when the content filter flagged the new content; admins editing a script never change its review state.
+export const moderationAfterEdit = (currentStatus: ModerationStatus, byAdmin: boolean, flagged: FilterMatch[] = []) => {
+    if (byAdmin) {
+        return {};
+    }
+    if (flagged.length > 0) {
+        return heldForReview(flagged);
+    }
+    if (getModerationDefaultStatus() !== 'pending' && currentStatus !== 'rejected') {
+        return {};
+    }
+    return { status: ModerationStatus.pending, moderationReason: null, moderatedAt: null };
+};
@@ -0,0 +1,21 @@
+import { Prisma } from '@prisma/client';
+
+// Trending scores decay exponentially: a reaction is worth 1 when fresh, 0.5 after one half-life, 0.25 after two...
+export const TRENDING_HALF_LIFE_HOURS = 24;
+
+// Time-decayed reaction score of the script_snips row in the surrounding query (for ORDER BY)
+export const reactionTrendingScoreSql = Prisma.sql`COALESCE((
+    SELECT SUM(power(0.5, EXTRACT(EPOCH FROM (NOW() - r."createdAt")) / ${TRENDING_HALF_LIFE_HOURS * 3600}))
+    FROM script_reactions r
+    WHERE r."scriptId" = script_snips.id
+), 0)`;
+
+// Windows accepted by /api/scripts/trending, in hours
+export const TRENDING_WINDOWS: Record<string, number> = {
+    '24h': 24,
+    '7d': 7 * 24,
+    '30d': 30 * 24,
+};
+
+// A reaction says more than a view, so it counts as this many views in the trending ranking
+export const TRENDING_REACTION_WEIGHT = 5;
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { includesField, parseProjection, projectionSelectSql, projectScript, projectScripts } from './projection';
+import { AppError } from '../middleware/errorHandler';
+
+const script = {
+    id: 's1',
+    title: 'Bridge Crisis',
+    characters: ['Captain Eva', 'Jax'],
+    lines: [
+        { type: 'scene_heading', text: 'INT. BRIDGE - NIGHT' },
+        { type: 'dialogue', character: 'Jax', dialogue: '  Readings are off the charts. ' },
+    ],
+    tags: ['sci-fi'],
+    createdAt: new Date('2025-05-20T10:00:00Z'),
+    reactionTotal: 2,
+};
+
+describe('parseProjection', () => {
+    it('should return null when neither fields nor view is given, or for the full view', () => {
+        expect(parseProjection({})).toBeNull();
+        expect(parseProjection({ view: 'full' })).toBeNull();
+    });
+
+    it('should always include the id in a field list', () => {
+        expect(parseProjection({ fields: 'title, characters' })).toEqual(['id', 'title', 'characters']);
+        expect(parseProjection({ fields: ['title', 'id,title'] })).toEqual(['title', 'id']);
+    });
+
+    it('should reject unknown and private fields, unknown views and both parameters at once', () => {
+        expect(() => parseProjection({ fields: 'title,editTokenHash' })).toThrow(/Unknown field\(s\): editTokenHash/);
+        expect(() => parseProjection({ fields: ' , ' })).toThrow(AppError);
+        expect(() => parseProjection({ view: 'compact' })).toThrow(/Invalid view parameter/);
+        expect(() => parseProjection({ view: 'constructor' })).toThrow(/Invalid view parameter/);
+        expect(() => parseProjection({ fields: 'title', view: 'summary' })).toThrow(/not both/);
+    });
+});
+
+describe('projectScript', () => {
+    it('should keep only the requested fields', () => {
+        expect(projectScript(script, ['id', 'title', 'characters'])).toEqual({
+            id: 's1', title: 'Bridge Crisis', characters: ['Captain Eva', 'Jax'],
+        });
+        expect(projectScript(script, null)).toBe(script);
+    });
+
+    it('should read back a legacy preview line like the lines themselves', () => {
+        expect(projectScripts([{ id: 's2', preview: { character: 'Jax', dialogue: 'Hi' }, lineCount: 1 }], ['id', 'preview'])).toEqual([
+            { id: 's2', preview: { type: 'dialogue', character: 'Jax', dialogue: 'Hi' } },
+        ]);
+        expect(projectScript({ id: 's3', preview: null }, ['id', 'preview'])).toEqual({ id: 's3', preview: null });
+    });
+});
+
+describe('projectionSelectSql', () => {
+    it('should select every column without a projection', () => {
+        const sql = projectionSelectSql(null).sql;
+        expect(sql).toContain('script_snips."id", script_snips."title"');
+        expect(sql).toContain('script_snips."lines"');
+    });
+
+    it('should select only the requested columns and compute the summary fields in the database', () => {
+        const sql = projectionSelectSql(parseProjection({ view: 'summary' })).sql;
+        expect(sql).toContain('script_snips."id", script_snips."title"');
+        expect(sql).toContain('AS "lineCount"');
+        expect(sql).toContain('script_snips.lines->0 AS preview');
+        expect(sql).toContain('AS "wordCount"');
+        expect(sql).not.toContain('script_snips."lines"');
+        expect(sql).not.toContain('editTokenHash');
+    });
+
+    it('should leave out summary fields nobody asked for', () => {
+        expect(projectionSelectSql(['id', 'title']).sql).toBe('script_snips."id", script_snips."title"');
+    });
+});
+
+describe('includesField', () => {
+    it('should treat no projection as every field', () => {
+        expect(includesField(null, 'series')).toBe(true);
+        expect(includesField(['id', 'series'], 'series')).toBe(true);
+        expect(includesField(['id', 'title'], 'series')).toBe(false);
+    });
+});
@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { lineCountSql, normalizeLine, wordCountSql } from './scriptLines';
+import { scriptColumnsSql } from './scriptColumns';
+
+// Sparse fieldsets (fields=id,title,characters) and named views (view=summary) for endpoints that return
+// lists of scripts, so list UIs don't have to download every line of every script.
+
+// Stored fields a client can ask for (the private ones never leave the server, see scriptSerializer)
+const COLUMN_FIELDS = [
+    'id', 'title', 'characters', 'lines', 'tags', 'language', 'translationOfId', 'parentId',
+    'createdAt', 'updatedAt', 'deletedAt', 'status', 'moderationReason', 'moderatedAt', 'hiddenAt',
+    'reactionCounts', 'reactionTotal', 'viewCount',
+];
+// Computed from the lines by the database, so summaries don't have to load them
+const SUMMARY_FIELD_SQL: Record<string, Prisma.Sql> = {
+    lineCount: Prisma.sql`${lineCountSql} AS "lineCount"`,
+    preview: Prisma.sql`script_snips.lines->0 AS preview`,
+    wordCount: Prisma.sql`${wordCountSql} AS "wordCount"`,
+};
+const SUMMARY_FIELDS = Object.keys(SUMMARY_FIELD_SQL);
+// Added by some endpoints (series navigation, search highlights and closeness); kept only when present
+const CONTEXT_FIELDS = ['series', 'highlights', 'closeness'];
+
+export const PROJECTABLE_FIELDS = [...COLUMN_FIELDS, ...SUMMARY_FIELDS, ...CONTEXT_FIELDS];
+
+export const SCRIPT_VIEWS: Record<string, string[] | null> = {
+    full: null, // Everything (the default)
+    summary: [
+        'id', 'title', 'characters', 'tags', 'language', 'createdAt', 'updatedAt',
+        'reactionCounts', 'reactionTotal', 'viewCount', ...SUMMARY_FIELDS, ...CONTEXT_FIELDS,
+    ],
+};
+
+// Parse 'fields' (comma-separated and/or repeated) or 'view' into the fields to return; null means all of them
+export const parseProjection = (query: { fields?: unknown; view?: unknown }): string[] | null => {
+    if (query.fields !== undefined && query.view !== undefined) {
+        throw new AppError('Use either the fields or the view parameter, not both.', 400);
+    }
+
+    if (query.fields !== undefined) {
+        const fields = Array.from(new Set((Array.isArray(query.fields) ? query.fields : [query.fields])
+            .flatMap(entry => String(entry).split(','))
+            .map(field => field.trim())
+            .filter(field => field)));
+        const unknown = fields.filter(field => !PROJECTABLE_FIELDS.includes(field));
+        if (fields.length === 0 || unknown.length > 0) {
+            throw new AppError(`Invalid fields parameter.${unknown.length > 0 ? ` Unknown field(s): ${unknown.join(', ')}.` : ''} Must be any of: ${PROJECTABLE_FIELDS.join(', ')}.`, 400);
+        }
+        return fields.includes('id') ? fields : ['id', ...fields]; // Results always say which script they are
+    }
+
+    if (query.view !== undefined) {
+        const view = String(query.view).trim().toLowerCase();
+        if (!Object.hasOwn(SCRIPT_VIEWS, view)) { // Own keys only, so names like 'constructor' aren't taken for a view
+            throw new AppError(`Invalid view parameter. Must be one of: ${Object.keys(SCRIPT_VIEWS).join(', ')}.`, 400);
+        }
+        return SCRIPT_VIEWS[view];
+    }
+
+    return null;
+};
+
+// Whether a projection includes a field (null = every field), e.g. to skip work for fields nobody asked for
+export const includesField = (fields: string[] | null, field: string): boolean => !fields || fields.includes(field);
+
+// SELECT list for a projection in raw queries on script_snips: the requested columns and summary fields
+// (null = every column)
+export const projectionSelectSql = (fields: string[] | null): Prisma.Sql => fields
+    ? Prisma.join([
+        scriptColumnsSql(COLUMN_FIELDS.filter(field => fields.includes(field))), // Never empty, the id is always there
+        ...SUMMARY_FIELDS.filter(field => fields.includes(field)).map(field => SUMMARY_FIELD_SQL[field]),
+    ], ', ')
+    : scriptColumnsSql();
+
+// Keep only the requested fields of a serialized script selected with projectionSelectSql
+// (null = leave it as it is). Extra columns endpoints add, like highlights nobody asked for, are dropped.
+export const projectScript = <T extends Record<string, any>>(script: T, fields: string[] | null): Record<string, any> => {
+    if (!fields) {
+        return script;
+    }
+    const projected: Record<string, any> = Object.fromEntries(fields.filter(field => field in script).map(field => [field, script[field]]));
+    if (projected.preview) {
+        projected.preview = normalizeLine(projected.preview); // Read back like the lines themselves
+    }
+    return projected;
+};
+
+export const projectScripts = <T extends Record<string, any>>(scripts: T[], fields: string[] | null) =>
+    scripts.map(script => projectScript(script, fields));
@@ -0,0 +1,9 @@
+import { Prisma } from '@prisma/client';
+
+// Columns raw queries select for script rows. "SELECT *" would include "searchDocument", a tsvector
+// $queryRaw can't deserialize (Prisma only knows it as Unsupported), so the columns Prisma maps are listed instead.
+export const SCRIPT_COLUMNS: readonly string[] = Object.values(Prisma.ScriptSnipScalarFieldEnum);
+
+// script_snips."id", script_snips."title", ... (qualified, so it also works in queries joining other tables)
+export const scriptColumnsSql = (columns: readonly string[] = SCRIPT_COLUMNS) =>
+    Prisma.join(columns.map(column => Prisma.raw(`script_snips."${column}"`)), ', ');
@@ -0,0 +1,64 @@
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import prisma from '../db';
+import { createScriptSchema } from '../schemas/scriptSchema';
+import { AppError } from '../middleware/errorHandler';
+import { applySpeakerConsistency } from './speakerConsistency';
+import { getSpeakerCheckMode } from '../config';
+import { generateToken, hashToken } from './tokens';
+import { initialModeration } from './moderation';
+import { filterScriptContent } from './contentFilter';
+import { resolveCharacterLinks } from './characterLinks';
+import { resolveTranslationOf } from './translations';
+
+// Hard cap on stored scripts (the free database tier is small)
+export const MAX_SCRIPTS_ALLOWED = 500;
+
+// Validate, screen and store a new script with its initial revision.
+// Shared by every path that creates scripts (plain creation and forks) so they all get the same limits and checks.
+// 'extra' carries additional columns for the new row, e.g. the fork's parent.
+export const createScriptRecord = async (input: unknown, extra: Pick<Prisma.ScriptSnipUncheckedCreateInput, 'parentId'> = {}) => {
+    const currentScriptCount = await prisma.scriptSnip.count();
+    if (currentScriptCount >= MAX_SCRIPTS_ALLOWED) {
+        // 403 Forbidden: the request is understood but refused
+        throw new AppError(`Database limit reached. Cannot create more than ${MAX_SCRIPTS_ALLOWED} scripts.`, 403);
+    }
+
+    // Screen the submission (may mask text; rejected content throws a 422)
+    const { content: validatedData, flagged } = filterScriptContent(createScriptSchema.parse(input));
+    const { title, tags } = validatedData;
+
+    // Make sure every speaker belongs to the cast (may add or rename speakers depending on the mode)
+    const { characters, lines } = applySpeakerConsistency(validatedData.characters, validatedData.lines, getSpeakerCheckMode());
+
+    // Optional links from cast entries to registry characters
+    const characterLinks = validatedData.characterLinks
+        ? await resolveCharacterLinks(prisma, validatedData.characterLinks, characters)
+        : [];
+
+    // A translation points at the original (and has to say which language it is in)
+    if (validatedData.translationOf && !validatedData.language) {
+        throw new ZodError([{ code: 'custom', path: ['language'], message: 'A translation needs a language' }]);
+    }
+    const translationOfId = validatedData.translationOf
+        ? await resolveTranslationOf(prisma, validatedData.translationOf)
+        : undefined;
+
+    // The edit token is only stored hashed, the creation response is the one time the creator sees it
+    const editToken = generateToken();
+
+    const content = { title: title || 'Untitled', characters, lines, tags };
+    const script = await prisma.scriptSnip.create({
+        data: {
+            ...content,
+            ...extra,
+            language: validatedData.language,
+            translationOfId,
+            ...(characterLinks.length > 0 && { characterLinks: { create: characterLinks } }),
+            editTokenHash: hashToken(editToken),
+            ...initialModeration(flagged), // Pending scripts stay hidden until an admin approves them
+            revisions: { create: { revision: 1, ...content } }, // Initial content is revision 1
+        },
+    });
+    return { script, editToken };
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeLine, normalizeLines, getLineText, getLineCharacter } from './scriptLines';
+
+describe('Script Line Helpers', () => {
+    it('should treat a legacy line without a type as dialogue', () => {
+        expect(normalizeLine({ character: 'Jax', dialogue: 'Readings are off.' }))
+            .toEqual({ type: 'dialogue', character: 'Jax', dialogue: 'Readings are off.' });
+    });
+
+    it('should leave typed lines untouched', () => {
+        const line = { type: 'action', text: 'The lights flicker.' };
+        expect(normalizeLine(line)).toBe(line);
+    });
+
+    it('should pass non-array lines values through', () => {
+        expect(normalizeLines(null)).toBeNull();
+        expect(normalizeLines([{ character: 'A', dialogue: 'B' }])).toEqual([{ type: 'dialogue', character: 'A', dialogue: 'B' }]);
+    });
+
+    it('should return the text and character of each line type', () => {
+        expect(getLineText({ type: 'dialogue', character: 'A', dialogue: 'Hi' })).toBe('Hi');
+        expect(getLineText({ type: 'transition', text: 'FADE OUT.' })).toBe('FADE OUT.');
+        expect(getLineCharacter({ type: 'parenthetical', character: 'A', text: 'softly' })).toBe('A');
+        expect(getLineCharacter({ type: 'scene_heading', text: 'EXT. DOCKS - DAY' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { ScriptLine } from '../schemas/scriptSchema';
+
+// Normalize a stored line for reading.
+// Rows created before typed lines existed are stored as { character, dialogue } and read back as dialogue.
+export const normalizeLine = (line: any): ScriptLine => {
+    if (line && typeof line === 'object' && line.type === undefined) {
+        return { ...line, type: 'dialogue' };
+    }
+    return line;
+};
+
+// Normalize a stored 'lines' JSON value (non-arrays are passed through untouched)
+export const normalizeLines = (lines: unknown): unknown =>
+    Array.isArray(lines) ? lines.map(normalizeLine) : lines;
+
+// Get the text content of a line regardless of its type
+export const getLineText = (line: ScriptLine): string =>
+    line.type === 'dialogue' ? line.dialogue : line.text;
+
+// Get the character a line belongs to (action, scene heading and transition lines have none)
+export const getLineCharacter = (line: ScriptLine): string | undefined =>
+    line.type === 'dialogue' || line.type === 'parenthetical' ? line.character : undefined;
+
+// Text of the JSON line aliased 'line' in raw SQL: dialogue lines keep their words in 'dialogue', every other
+// line type in 'text'
+export const lineTextSql = Prisma.sql`COALESCE(line->>'dialogue', line->>'text', '')`;
+
+// The text of every line of the script_snips row in the surrounding query (dialogue, action, scene headings...),
+// as one text (for raw SQL)
+export const scriptTextSql = Prisma.sql`COALESCE((
+    SELECT string_agg(${lineTextSql}, ' ') FROM jsonb_array_elements(script_snips.lines) AS line
+), '')`;
+
+// Everything the characters say in the script_snips row of the surrounding query, as one text (for raw SQL)
+export const dialogueTextSql = Prisma.sql`COALESCE((
+    SELECT string_agg(line->>'dialogue', ' ') FROM jsonb_array_elements(script_snips.lines) AS line
+), '')`;
+
+// Size measures of the script_snips row in the surrounding query (for filters and summaries in raw SQL)
+export const lineCountSql = Prisma.sql`jsonb_array_length(script_snips.lines)`;
+export const castSizeSql = Prisma.sql`cardinality(script_snips.characters)`;
+// Whitespace-separated words in the text of every line (dialogue, parentheticals, action...)
+export const wordCountSql = Prisma.sql`COALESCE((
+    SELECT SUM(array_length(regexp_split_to_array(btrim(${lineTextSql}), '[[:space:]]+'), 1))
+    FROM jsonb_array_elements(script_snips.lines) AS line
+    WHERE btrim(${lineTextSql}) <> ''
+), 0)::int`;
@@ -0,0 +1,38 @@
+import { Prisma, ScriptSnip } from '@prisma/client';
+
+// Content fields captured in every revision
+export const revisionContent = (script: Pick<ScriptSnip, 'title' | 'characters' | 'lines' | 'tags'>) => ({
+    title: script.title,
+    characters: script.characters,
+    lines: script.lines as Prisma.InputJsonValue,
+    tags: script.tags,
+});
+
+// Record the updated content of a script as its next revision.
+// Call inside the same transaction as the update. 'previous' is the script as it was before the update:
+// scripts created before revisions existed (or imported directly) get it stored as revision 1 first,
+// so their original content isn't lost.
+export const recordScriptRevision = async (
+    tx: Prisma.TransactionClient,
+    updated: ScriptSnip,
+    previous: ScriptSnip | null,
+    restoredFrom?: number
+) => {
+    const latest = await tx.scriptRevision.findFirst({
+        where: { scriptId: updated.id },
+        orderBy: { revision: 'desc' },
+        select: { revision: true },
+    });
+
+    let nextRevision = (latest?.revision ?? 0) + 1;
+    if (!latest && previous) {
+        await tx.scriptRevision.create({
+            data: { scriptId: updated.id, revision: 1, ...revisionContent(previous), createdAt: previous.createdAt },
+        });
+        nextRevision = 2;
+    }
+
+    return tx.scriptRevision.create({
+        data: { scriptId: updated.id, revision: nextRevision, ...revisionContent(updated), restoredFrom },
+    });
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { serializeScript, serializeScripts } from './scriptSerializer';
+
+describe('Script Serializer', () => {
+    it('should normalize legacy lines to typed dialogue lines', () => {
+        const script = { id: 's1', lines: [{ character: 'A', dialogue: 'Hi' }] };
+        expect(serializeScript(script)).toEqual({ id: 's1', lines: [{ type: 'dialogue', character: 'A', dialogue: 'Hi' }] });
+    });
+
+    it('should return scripts without lines unchanged', () => {
+        const script = { id: 's1', title: 'No lines selected' };
+        expect(serializeScript(script)).toBe(script);
+    });
+
+    it('should never expose the edit token hash', () => {
+        const serialized = serializeScript({ id: 's1', lines: [], editTokenHash: 'abc123' });
+        expect(serialized).not.toHaveProperty('editTokenHash');
+    });
+
+    it('should not expose the raw search document', () => {
+        expect(serializeScript({ id: 's1', lines: [], searchDocument: "'bridg':1A" })).not.toHaveProperty('searchDocument');
+    });
+
+    it('should list every reaction type in reactionCounts', () => {
+        const serialized = serializeScript({ id: 's1', lines: [], reactionCounts: { laugh: 2 }, reactionTotal: 2 });
+        expect(serialized.reactionCounts).toEqual({ laugh: 2, chills: 0, applause: 0, tears: 0 });
+    });
+
+    it('should serialize a list of scripts', () => {
+        expect(serializeScripts([{ id: 's1', lines: [] }, { id: 's2', lines: [] }])).toHaveLength(2);
+    });
+});
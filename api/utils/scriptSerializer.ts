@@ -0,0 +1,32 @@
+import { normalizeLines } from './scriptLines';
+import { REACTION_TYPES } from '../schemas/reactionSchema';
+
+// Columns that must never leave the server
+const PRIVATE_FIELDS = ['editTokenHash', 'searchDocument'];
+
+// Shape a script row (from Prisma or a raw query) for an API response.
+// Every endpoint that returns scripts should pass them through here.
+export const serializeScript = <T extends Record<string, any>>(script: T): T => {
+    if (!script || typeof script !== 'object') {
+        return script;
+    }
+    if (!Array.isArray(script.lines) && !PRIVATE_FIELDS.some(field => field in script) && !('reactionCounts' in script)) {
+        return script;
+    }
+    const serialized: Record<string, any> = { ...script };
+    PRIVATE_FIELDS.forEach(field => delete serialized[field]);
+    if (Array.isArray(script.lines)) {
+        serialized.lines = normalizeLines(script.lines);
+    }
+    if ('reactionCounts' in script) {
+        // Every reaction type is listed, with 0 for the ones nobody has used yet
+        serialized.reactionCounts = {
+            ...Object.fromEntries(REACTION_TYPES.map(type => [type, 0])),
+            ...(script.reactionCounts ?? {}),
+        };
+    }
+    return serialized as T;
+};
+
+export const serializeScripts = <T extends Record<string, any>>(scripts: T[]): T[] =>
+    scripts.map(serializeScript);
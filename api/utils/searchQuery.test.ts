@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, searchQuerySql, MAX_QUERY_TERMS } from './searchQuery';
+import { AppError } from '../middleware/errorHandler';
+
+const parseError = (query: string): AppError => {
+    try {
+        parseSearchQuery(query);
+    } catch (error) {
+        return error as AppError;
+    }
+    throw new Error(`"${query}" parsed without an error`);
+};
+
+describe('parseSearchQuery', () => {
+    it('should parse fielded terms, phrases and implicit AND', () => {
+        expect(parseSearchQuery('title:"bridge crisis" character:Eva')).toEqual({
+            type: 'and',
+            nodes: [
+                { type: 'term', field: 'title', value: 'bridge crisis' },
+                { type: 'term', field: 'character', value: 'Eva' },
+            ],
+        });
+    });
+
+    it('should combine speaker:X says:Y into a single line condition', () => {
+        expect(parseSearchQuery('speaker:Jax says:readings -title:draft')).toEqual({
+            type: 'and',
+            nodes: [
+                { type: 'line', speaker: 'Jax', says: 'readings' },
+                { type: 'not', node: { type: 'term', field: 'title', value: 'draft' } },
+            ],
+        });
+    });
+
+    it('should bind AND tighter than OR and respect parentheses', () => {
+        expect(parseSearchQuery('a b OR c')).toEqual({
+            type: 'or',
+            nodes: [
+                { type: 'and', nodes: [{ type: 'term', field: null, value: 'a' }, { type: 'term', field: null, value: 'b' }] },
+                { type: 'term', field: null, value: 'c' },
+            ],
+        });
+        expect(parseSearchQuery('NOT (a OR "b c") AND d')).toEqual({
+            type: 'and',
+            nodes: [
+                { type: 'not', node: { type: 'or', nodes: [{ type: 'term', field: null, value: 'a' }, { type: 'term', field: null, value: 'b c' }] } },
+                { type: 'term', field: null, value: 'd' },
+            ],
+        });
+    });
+
+    it('should treat hyphens inside words and non-field colons as text', () => {
+        expect(parseSearchQuery('sci-fi')).toEqual({ type: 'term', field: null, value: 'sci-fi' });
+        expect(parseSearchQuery('10:30')).toEqual({ type: 'term', field: null, value: '10:30' });
+    });
+
+    it.each([
+        ['', 'the query is empty'],
+        ['author:me', 'unknown field "author"'],
+        ['title:', '"title:" needs a value'],
+        ['says:"unclosed', 'unclosed quote (at position 6)'],
+        ['(a OR b', 'missing ")"'],
+        ['a)', 'unexpected ")" (at position 2)'],
+        ['a OR', 'OR must be followed by a term'],
+        ['OR a', 'OR must come between two terms'],
+        ['()', 'empty parentheses'],
+        ['a AND', 'AND must come between two terms'],
+        ['NOT', 'negation must be followed by a term'],
+    ])('should reject %j with a descriptive 400', (query, message) => {
+        const error = parseError(query);
+        expect(error).toBeInstanceOf(AppError);
+        expect(error.statusCode).toBe(400);
+        expect(error.message).toContain(message);
+    });
+
+    it('should limit the number of terms and the nesting depth', () => {
+        expect(parseError(Array.from({ length: MAX_QUERY_TERMS + 1 }, (_, i) => `w${i}`).join(' ')).message).toContain('terms');
+        expect(parseError('((((((a))))))').message).toContain('nest deeper');
+    });
+});
+
+describe('searchQuerySql', () => {
+    it('should compile to parameterized SQL with LIKE wildcards escaped', () => {
+        const sql = searchQuerySql(parseSearchQuery('speaker:Jax says:"100%" OR -character:"_x"'));
+        expect(sql.sql).toContain(`line->>'character' ILIKE ? AND line->>'dialogue' ILIKE ?`);
+        expect(sql.sql).toContain(' OR NOT (EXISTS (SELECT 1 FROM unnest(characters)');
+        expect(sql.values).toEqual(['%Jax%', '%100\\%%', '%\\_x%']);
+    });
+
+    it('should search unfielded terms through the search document', () => {
+        const sql = searchQuerySql(parseSearchQuery('"off the charts"'));
+        expect(sql.sql).toContain(`phraseto_tsquery('english', ?)`);
+        expect(sql.values).toEqual(['off the charts']);
+    });
+});
@@ -0,0 +1,291 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { phraseMatchSql } from './fullTextSearch';
+
+// Structured search for GET /api/scripts?q=...
+//
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary+                     (terms next to each other must all match; "AND" may be written out)
+//   unary   := ("-" | "NOT") unary | primary
+//   primary := "(" or ")" | [field ":"] (word | "quoted phrase")
+//
+// Fields: title, character (cast entry), says (dialogue), speaker (who speaks a line). "speaker:X says:Y"
+// next to each other means a single line spoken by X containing Y. Terms without a field go through the
+// full-text search document, fielded terms match case-insensitive substrings.
+
+export const SEARCH_FIELDS = ['title', 'character', 'says', 'speaker'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+// Keep queries cheap to compile and run
+export const MAX_QUERY_LENGTH = 500;
+export const MAX_QUERY_TERMS = 20;
+export const MAX_QUERY_DEPTH = 5;
+
+export type SearchNode =
+    | { type: 'term'; field: SearchField | null; value: string }
+    | { type: 'line'; speaker: string; says: string }
+    | { type: 'not'; node: SearchNode }
+    | { type: 'and'; nodes: SearchNode[] }
+    | { type: 'or'; nodes: SearchNode[] };
+
+type Token =
+    | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; position: number }
+    | { type: 'term'; field: SearchField | null; value: string; position: number };
+
+// Positions in error messages are 1-based character offsets into the query
+const queryError = (message: string, position?: number) =>
+    new AppError(
+        `Invalid q parameter: ${message}${position !== undefined ? ` (at position ${position + 1})` : ''}.`,
+        400,
+        position !== undefined ? { position: position + 1 } : undefined
+    );
+
+const isBoundary = (char: string | undefined) => char === undefined || /[\s()"]/.test(char);
+
+const readQuoted = (query: string, start: number): { value: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+        throw queryError('unclosed quote', start);
+    }
+    const value = query.slice(start + 1, close).trim();
+    if (!value) {
+        throw queryError('empty quoted phrase', start);
+    }
+    return { value, end: close + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < query.length) {
+        const char = query[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+            i++;
+        } else if (char === '-' && !isBoundary(query[i + 1])) {
+            tokens.push({ type: 'not', position: i });
+            i++;
+        } else if (char === '"') {
+            const { value, end } = readQuoted(query, i);
+            tokens.push({ type: 'term', field: null, value, position: i });
+            i = end;
+        } else {
+            const start = i;
+            while (!isBoundary(query[i]) && !(query[i] === ':' && i > start)) {
+                i++;
+            }
+            const word = query.slice(start, i);
+            const fieldName = word.toLowerCase();
+
+            if (query[i] === ':' && /^[a-z]+$/i.test(word)) {
+                if (!(SEARCH_FIELDS as readonly string[]).includes(fieldName)) {
+                    throw queryError(`unknown field "${word}", use one of ${SEARCH_FIELDS.join(', ')}`, start);
+                }
+                i++; // the colon
+                let value: string;
+                if (query[i] === '"') {
+                    ({ value, end: i } = readQuoted(query, i));
+                } else {
+                    const valueStart = i;
+                    while (!isBoundary(query[i])) {
+                        i++;
+                    }
+                    value = query.slice(valueStart, i);
+                }
+                if (!value) {
+                    throw queryError(`"${fieldName}:" needs a value`, start);
+                }
+                tokens.push({ type: 'term', field: fieldName as SearchField, value, position: start });
+            } else {
+                // A colon that doesn't follow a field name is part of the word (e.g. "10:30")
+                while (!isBoundary(query[i])) {
+                    i++;
+                }
+                const value = query.slice(start, i);
+                if (value === 'OR' || value === 'AND' || value === 'NOT') {
+                    tokens.push({ type: value.toLowerCase() as 'or' | 'and' | 'not', position: start });
+                } else {
+                    tokens.push({ type: 'term', field: null, value, position: start });
+                }
+            }
+        }
+    }
+    return tokens;
+};
+
+class Parser {
+    private index = 0;
+    private depth = 0;
+
+    constructor(private readonly tokens: Token[], private readonly queryLength: number) {}
+
+    parse(): SearchNode {
+        const node = this.parseOr();
+        const extra = this.peek();
+        if (extra) {
+            // parseOr only stops early at a ")" that has no matching "("
+            throw queryError('unexpected ")"', extra.position);
+        }
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private parseOr(): SearchNode {
+        const nodes = [this.parseAnd()];
+        while (this.peek()?.type === 'or') {
+            const or = this.tokens[this.index++];
+            if (!this.peek() || this.peek()!.type === 'rparen' || this.peek()!.type === 'or') {
+                throw queryError('OR must be followed by a term', or.position);
+            }
+            nodes.push(this.parseAnd());
+        }
+        return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+    }
+
+    private parseAnd(): SearchNode {
+        const nodes: SearchNode[] = [];
+        let next = this.peek();
+        while (next && next.type !== 'or' && next.type !== 'rparen') {
+            if (next.type === 'and') {
+                this.index++;
+                if (nodes.length === 0 || !this.peek() || ['or', 'and', 'rparen'].includes(this.peek()!.type)) {
+                    throw queryError('AND must come between two terms', next.position);
+                }
+            } else {
+                nodes.push(this.parseUnary());
+            }
+            next = this.peek();
+        }
+        if (nodes.length === 0) {
+            if (next?.type === 'or') {
+                throw queryError('OR must come between two terms', next.position);
+            }
+            if (next) {
+                throw queryError(this.depth > 0 ? 'empty parentheses' : 'unexpected ")"', next.position);
+            }
+            throw queryError('expected a search term', this.queryLength);
+        }
+        const combined = combineSpeakerLines(nodes);
+        return combined.length === 1 ? combined[0] : { type: 'and', nodes: combined };
+    }
+
+    private parseUnary(): SearchNode {
+        const token = this.peek()!;
+        if (token.type === 'not') {
+            this.index++;
+            const next = this.peek();
+            if (!next || next.type === 'or' || next.type === 'and' || next.type === 'rparen') {
+                throw queryError('negation must be followed by a term', token.position);
+            }
+            return { type: 'not', node: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): SearchNode {
+        const token = this.tokens[this.index++];
+        if (token.type === 'lparen') {
+            if (++this.depth > MAX_QUERY_DEPTH) {
+                throw queryError(`parentheses nest deeper than ${MAX_QUERY_DEPTH} levels`, token.position);
+            }
+            const node = this.parseOr();
+            if (this.peek()?.type !== 'rparen') {
+                throw queryError('missing ")" for this "("', token.position);
+            }
+            this.index++;
+            this.depth--;
+            return node;
+        }
+        if (token.type === 'term') {
+            return { type: 'term', field: token.field, value: token.value };
+        }
+        // 'and', 'or' and 'rparen' are handled by the callers before they get here
+        throw queryError(`unexpected "${token.type.toUpperCase()}"`, token.position);
+    }
+}
+
+// "speaker:X says:Y" written next to each other becomes one line condition
+const combineSpeakerLines = (nodes: SearchNode[]): SearchNode[] => {
+    const combined: SearchNode[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+        const node = nodes[i];
+        const next = nodes[i + 1];
+        if (node.type === 'term' && node.field === 'speaker' && next?.type === 'term' && next.field === 'says') {
+            combined.push({ type: 'line', speaker: node.value, says: next.value });
+            i++;
+        } else {
+            combined.push(node);
+        }
+    }
+    return combined;
+};
+
+const countTerms = (node: SearchNode): number => {
+    switch (node.type) {
+        case 'term': return 1;
+        case 'line': return 2;
+        case 'not': return countTerms(node.node);
+        default: return node.nodes.reduce((sum, child) => sum + countTerms(child), 0);
+    }
+};
+
+// Parse a q= value into a search tree. Throws an AppError (400) describing the first problem found.
+export const parseSearchQuery = (query: string): SearchNode => {
+    if (query.length > MAX_QUERY_LENGTH) {
+        throw queryError(`the query is longer than ${MAX_QUERY_LENGTH} characters`);
+    }
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+        throw queryError('the query is empty');
+    }
+    const tree = new Parser(tokens, query.length).parse();
+    if (countTerms(tree) > MAX_QUERY_TERMS) {
+        throw queryError(`the query has more than ${MAX_QUERY_TERMS} terms`);
+    }
+    return tree;
+};
+
+// Substring pattern for ILIKE with the LIKE wildcards in the value taken literally
+const containsPattern = (value: string) => `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+// Dialogue lines keep their words in 'dialogue'; 'says' only looks at what is spoken
+const lineExistsSql = (condition: Prisma.Sql) =>
+    Prisma.sql`EXISTS (SELECT 1 FROM jsonb_array_elements(lines) AS line WHERE ${condition})`;
+
+const termSql = (field: SearchField | null, value: string): Prisma.Sql => {
+    const pattern = containsPattern(value);
+    switch (field) {
+        case 'title':
+            return Prisma.sql`COALESCE(title, '') ILIKE ${pattern}`;
+        case 'character':
+            return Prisma.sql`EXISTS (SELECT 1 FROM unnest(characters) AS char WHERE char ILIKE ${pattern})`;
+        case 'says':
+            return lineExistsSql(Prisma.sql`line->>'dialogue' ILIKE ${pattern}`);
+        case 'speaker':
+            return lineExistsSql(Prisma.sql`line->>'character' ILIKE ${pattern}`);
+        default:
+            return phraseMatchSql(value);
+    }
+};
+
+// Compile a search tree into a condition on script_snips. Every user value is a bound parameter.
+export const searchQuerySql = (node: SearchNode): Prisma.Sql => {
+    switch (node.type) {
+        case 'term':
+            return termSql(node.field, node.value);
+        case 'line':
+            return lineExistsSql(Prisma.sql`line->>'character' ILIKE ${containsPattern(node.speaker)} AND line->>'dialogue' ILIKE ${containsPattern(node.says)}`);
+        case 'not':
+            return Prisma.sql`NOT (${searchQuerySql(node.node)})`;
+        case 'and':
+            return Prisma.sql`(${Prisma.join(node.nodes.map(searchQuerySql), ' AND ')})`;
+        case 'or':
+            return Prisma.sql`(${Prisma.join(node.nodes.map(searchQuerySql), ' OR ')})`;
+    }
+};
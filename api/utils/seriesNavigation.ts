@@ -0,0 +1,61 @@
+import prisma from '../db';
+import { visibleScriptWhere } from './visibility';
+
+type EpisodeLink = { id: string; title: string | null };
+
+export interface SeriesNavigation {
+    id: string;
+    title: string;
+    episode: number; // 1-based place among the series' visible episodes
+    episodeCount: number;
+    prev: EpisodeLink | null;
+    next: EpisodeLink | null;
+}
+
+// Add a 'series' block with prev/next links to every script that belongs to a series.
+// Scripts outside a series are returned untouched. Episodes the public can't see are skipped over.
+export const attachSeriesNavigation = async <T extends { id: string }>(scripts: T[]): Promise<(T & { series?: SeriesNavigation })[]> => {
+    if (scripts.length === 0) {
+        return scripts;
+    }
+
+    const memberships = await prisma.seriesEpisode.findMany({
+        where: { scriptId: { in: scripts.map(script => script.id) } },
+        select: { scriptId: true, seriesId: true, position: true, series: { select: { title: true } } },
+    });
+    if (memberships.length === 0) {
+        return scripts;
+    }
+
+    const episodes = await prisma.seriesEpisode.findMany({
+        where: { seriesId: { in: Array.from(new Set(memberships.map(m => m.seriesId))) }, script: visibleScriptWhere },
+        orderBy: { position: 'asc' },
+        select: { seriesId: true, scriptId: true, position: true, script: { select: { title: true } } },
+    });
+
+    const membershipByScript = new Map(memberships.map(m => [m.scriptId, m]));
+    return scripts.map(script => {
+        const membership = membershipByScript.get(script.id);
+        if (!membership) {
+            return script;
+        }
+        // Neighbours are found by position, so a script that isn't public itself (e.g. its creator's preview) still gets links
+        const siblings = episodes.filter(episode => episode.seriesId === membership.seriesId);
+        const before = siblings.filter(episode => episode.position < membership.position);
+        const after = siblings.filter(episode => episode.position > membership.position);
+        const link = (episode?: typeof siblings[number]): EpisodeLink | null =>
+            episode ? { id: episode.scriptId, title: episode.script.title } : null;
+
+        return {
+            ...script,
+            series: {
+                id: membership.seriesId,
+                title: membership.series.title,
+                episode: before.length + 1,
+                episodeCount: siblings.length,
+                prev: link(before[before.length - 1]),
+                next: link(after[0]),
+            },
+        };
+    });
+};
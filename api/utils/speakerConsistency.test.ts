@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { applySpeakerConsistency, findCastMatches } from './speakerConsistency';
+import { ScriptLine } from '../schemas/scriptSchema';
+
+const cast = ['Captain Eva Rostova', 'Science Officer Jian Li', 'Engineer Jax', 'Mom (Susan)'];
+const say = (character: string, dialogue = '...'): ScriptLine => ({ type: 'dialogue', character, dialogue });
+
+describe('Speaker Consistency', () => {
+    describe('findCastMatches', () => {
+        it('should match by trailing name, inner words and parenthetical alias', () => {
+            expect(findCastMatches('Jax', cast)).toEqual(['Engineer Jax']);
+            expect(findCastMatches('Jian Li', cast)).toEqual(['Science Officer Jian Li']);
+            expect(findCastMatches('Eva', cast)).toEqual(['Captain Eva Rostova']);
+            expect(findCastMatches('Susan', cast)).toEqual(['Mom (Susan)']);
+            expect(findCastMatches('mom', cast)).toEqual(['Mom (Susan)']);
+        });
+
+        it('should prefer exact matches over partial ones', () => {
+            expect(findCastMatches('Jax', ['Jax', 'Engineer Jax'])).toEqual(['Jax']);
+        });
+    });
+
+    describe('reject mode', () => {
+        it('should accept lines whose speakers are all in the cast', () => {
+            const result = applySpeakerConsistency(cast, [say('Engineer Jax'), { type: 'action', text: 'Alarms blare.' }], 'reject');
+            expect(result.changed).toBe(false);
+        });
+
+        it('should throw a ZodError pointing at each offending line', () => {
+            try {
+                applySpeakerConsistency(cast, [say('Engineer Jax'), say('Jax')], 'reject');
+                expect.fail('Expected a ZodError');
+            } catch (error) {
+                expect(error).toBeInstanceOf(ZodError);
+                expect((error as ZodError).errors[0].path).toEqual(['lines', 1, 'character']);
+                expect((error as ZodError).errors[0].message).toBe('Character "Jax" is not in the cast');
+            }
+        });
+    });
+
+    describe('add mode', () => {
+        it('should append unknown speakers to the cast once', () => {
+            const result = applySpeakerConsistency(['Alice'], [say('Alice'), say('Bob'), say('Bob')], 'add');
+            expect(result.characters).toEqual(['Alice', 'Bob']);
+            expect(result.changed).toBe(true);
+        });
+
+        it('should normalize differently-cased speakers instead of adding duplicates', () => {
+            const result = applySpeakerConsistency(['Alice'], [say('alice')], 'add');
+            expect(result.characters).toEqual(['Alice']);
+            expect(result.lines[0]).toEqual(say('Alice'));
+        });
+    });
+
+    describe('resolve mode', () => {
+        it('should rewrite aliases and prefixes to the canonical cast name', () => {
+            const result = applySpeakerConsistency(cast, [say('Jax'), say('Jian Li'), { type: 'parenthetical', character: 'Susan', text: 'sighing' }], 'resolve');
+            expect(result.lines.map(line => (line as any).character)).toEqual(['Engineer Jax', 'Science Officer Jian Li', 'Mom (Susan)']);
+            expect(result.characters).toEqual(cast);
+            expect(result.changed).toBe(true);
+        });
+
+        it('should reject ambiguous and unknown speakers', () => {
+            expect(() => applySpeakerConsistency(['Officer Li', 'Doctor Li'], [say('Li')], 'resolve')).toThrow(/ambiguous/);
+            expect(() => applySpeakerConsistency(cast, [say('Narrator')], 'resolve')).toThrow(ZodError);
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { ZodError, ZodIssue } from 'zod';
+import { ScriptLine } from '../schemas/scriptSchema';
+import { SpeakerCheckMode } from '../config';
+import { getLineCharacter } from './scriptLines';
+
+// Compare names case- and whitespace-insensitively, ignoring punctuation such as "Dr." vs "Dr"
+const nameKey = (name: string): string =>
+    name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').trim().replace(/\s+/g, ' ');
+
+const tokens = (name: string): string[] => nameKey(name).split(' ').filter(token => token);
+
+// True if 'needle' appears as a contiguous run of words inside 'haystack'
+const containsWordRun = (haystack: string[], needle: string[]): boolean => {
+    if (needle.length === 0 || needle.length > haystack.length) return false;
+    for (let start = 0; start + needle.length <= haystack.length; start++) {
+        if (needle.every((token, i) => haystack[start + i] === token)) return true;
+    }
+    return false;
+};
+
+// Names a cast entry can be referred to by: the full name, the name without a parenthetical
+// and the parenthetical itself, e.g. "Mom (Susan)" -> "Mom (Susan)", "Mom", "Susan"
+const castAliases = (castName: string): string[] => {
+    const aliases = [castName];
+    const match = castName.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+    if (match) {
+        aliases.push(match[1], match[2]);
+    }
+    return aliases.filter(alias => nameKey(alias));
+};
+
+// Find the cast entries a speaker could refer to (exact matches win over partial ones)
+export const findCastMatches = (speaker: string, characters: string[]): string[] => {
+    const speakerKey = nameKey(speaker);
+    const exact = characters.filter(castName => castAliases(castName).some(alias => nameKey(alias) === speakerKey));
+    if (exact.length > 0) return exact;
+
+    // Partial: the speaker is a run of words inside an alias ("Jax" in "Engineer Jax", "Jian Li" in "Science Officer Jian Li")
+    const speakerTokens = tokens(speaker);
+    return characters.filter(castName => castAliases(castName).some(alias => containsWordRun(tokens(alias), speakerTokens)));
+};
+
+export interface SpeakerConsistencyResult {
+    characters: string[];
+    lines: ScriptLine[];
+    changed: boolean; // True if the cast or any line's character was rewritten
+}
+
+// Check every line's character against the cast according to the configured mode.
+// Throws a ZodError (reported like any other validation error) when speakers cannot be reconciled.
+export const applySpeakerConsistency = (
+    characters: string[],
+    lines: ScriptLine[],
+    mode: SpeakerCheckMode
+): SpeakerConsistencyResult => {
+    const issues: ZodIssue[] = [];
+    const cast = [...characters];
+    let changed = false;
+
+    const resultLines = lines.map((line, index) => {
+        const speaker = getLineCharacter(line);
+        if (speaker === undefined || cast.includes(speaker)) {
+            return line;
+        }
+        const path = ['lines', index, 'character'];
+
+        if (mode === 'reject') {
+            issues.push({ code: 'custom', path, message: `Character "${speaker}" is not in the cast` });
+            return line;
+        }
+
+        // Case/punctuation differences are always normalized to the cast spelling
+        const exactMatches = cast.filter(castName => nameKey(castName) === nameKey(speaker));
+        const matches = exactMatches.length > 0 || mode === 'add' ? exactMatches : findCastMatches(speaker, cast);
+
+        if (matches.length === 1) {
+            changed = true;
+            return { ...line, character: matches[0] } as ScriptLine;
+        }
+        if (matches.length > 1) {
+            issues.push({ code: 'custom', path, message: `Character "${speaker}" is ambiguous, it could be any of: ${matches.join(', ')}` });
+            return line;
+        }
+        if (mode === 'add') {
+            cast.push(speaker);
+            changed = true;
+            return line;
+        }
+        issues.push({ code: 'custom', path, message: `Character "${speaker}" is not in the cast and does not match any cast member` });
+        return line;
+    });
+
+    if (issues.length > 0) {
+        throw new ZodError(issues);
+    }
+    return { characters: cast, lines: resultLines, changed };
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { generateToken, hashToken, safeEqual, tokenMatchesHash } from './tokens';
+
+describe('Token Helpers', () => {
+    it('should generate unique URL-safe tokens', () => {
+        const token = generateToken();
+        expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+        expect(generateToken()).not.toBe(token);
+    });
+
+    it('should compare strings in constant time', () => {
+        expect(safeEqual('secret', 'secret')).toBe(true);
+        expect(safeEqual('secret', 'Secret')).toBe(false);
+        expect(safeEqual('secret', 'secret-but-longer')).toBe(false);
+    });
+
+    it('should match a token only against its own hash', () => {
+        const token = generateToken();
+        const hash = hashToken(token);
+        expect(hash).not.toContain(token);
+        expect(tokenMatchesHash(token, hash)).toBe(true);
+        expect(tokenMatchesHash('wrong-token', hash)).toBe(false);
+        expect(tokenMatchesHash(undefined, hash)).toBe(false);
+        expect(tokenMatchesHash(token, null)).toBe(false);
+    });
+});
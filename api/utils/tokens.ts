@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+// Generate a random URL-safe token (192 bits by default, fewer for public identifiers such as share slugs)
+export const generateToken = (bytes = 24): string => crypto.randomBytes(bytes).toString('base64url');
+
+// Tokens are only ever stored hashed
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Constant-time string comparison, so secrets can't be guessed from response timing
+export const safeEqual = (a: string, b: string): boolean => {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+// Check a plain token against a stored hash
+export const tokenMatchesHash = (token: string | undefined, hash: string | null | undefined): boolean =>
+    Boolean(token && hash && safeEqual(hashToken(token), hash));
@@ -0,0 +1,34 @@
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { liveScriptWhere } from './visibility';
+
+const translationIssue = (message: string) =>
+    new ZodError([{ code: 'custom', path: ['translationOf'], message }]);
+
+// Resolve the original a script declares itself a translation of.
+// Translations of translations are linked to the original, so every language version hangs off one script.
+// 'scriptId' is the script being updated (omitted on create). Problems are thrown as validation errors.
+export const resolveTranslationOf = async (
+    tx: Prisma.TransactionClient,
+    sourceId: string,
+    scriptId?: string
+): Promise<string> => {
+    const source = await tx.scriptSnip.findFirst({
+        where: { id: sourceId, ...liveScriptWhere },
+        select: { id: true, translationOfId: true },
+    });
+    if (!source) {
+        throw translationIssue(`Script "${sourceId}" does not exist`);
+    }
+
+    const originalId = source.translationOfId ?? source.id;
+    if (scriptId) {
+        if (originalId === scriptId) {
+            throw translationIssue('A script cannot be a translation of itself');
+        }
+        if (await tx.scriptSnip.count({ where: { translationOfId: scriptId } }) > 0) {
+            throw translationIssue('This script has translations of its own, so it cannot become a translation');
+        }
+    }
+    return originalId;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import prisma from '../db';
+import { recordViews } from './viewTracking';
+
+vi.mock('../db', () => ({
+    default: {
+        scriptView: {
+            findMany: vi.fn(),
+            createMany: vi.fn(),
+        },
+        $executeRaw: vi.fn(),
+        $transaction: vi.fn(),
+    },
+}));
+
+describe('View Tracking', () => {
+    beforeEach(() => {
+        vi.resetAllMocks();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should count scripts the client has not viewed within the dedupe window', async () => {
+        vi.stubEnv('VIEW_DEDUPE_MINUTES', '10');
+        vi.mocked(prisma.scriptView.findMany).mockResolvedValue([{ scriptId: 's1' }] as any);
+        const before = Date.now();
+
+        const recorded = await recordViews(['s1', 's2', 's2', 's3'], 'client-hash');
+
+        const { where } = vi.mocked(prisma.scriptView.findMany).mock.calls[0][0] as any;
+        expect(where.scriptId).toEqual({ in: ['s1', 's2', 's3'] });
+        expect(Math.abs(where.createdAt.gte.getTime() - (before - 10 * 60 * 1000))).toBeLessThan(1000);
+        expect(prisma.scriptView.createMany).toHaveBeenCalledWith({
+            data: [{ scriptId: 's2', clientHash: 'client-hash' }, { scriptId: 's3', clientHash: 'client-hash' }],
+        });
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+        expect(recorded).toEqual(['s2', 's3']);
+    });
+
+    it('should not write anything when every script was viewed recently', async () => {
+        vi.mocked(prisma.scriptView.findMany).mockResolvedValue([{ scriptId: 's1' }] as any);
+
+        expect(await recordViews(['s1'], 'client-hash')).toEqual([]);
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should log and swallow database errors', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(prisma.scriptView.findMany).mockRejectedValue(new Error('connection lost'));
+
+        expect(await recordViews(['s1'], 'client-hash')).toEqual([]);
+        expect(console.error).toHaveBeenCalled();
+    });
+});
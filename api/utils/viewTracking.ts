@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { getViewDedupeMinutes } from '../config';
+import { TRENDING_WINDOWS } from './popularity';
+
+// Record one view per script for the client, skipping scripts it already viewed within the dedupe window.
+// Returns the IDs that were counted. Failures are logged and never fail the read that triggered them.
+export const recordViews = async (scriptIds: string[], clientHash: string): Promise<string[]> => {
+    const ids = Array.from(new Set(scriptIds));
+    if (ids.length === 0) {
+        return [];
+    }
+    try {
+        const since = new Date(Date.now() - getViewDedupeMinutes() * 60 * 1000);
+        const recentViews = await prisma.scriptView.findMany({
+            where: { clientHash, scriptId: { in: ids }, createdAt: { gte: since } },
+            select: { scriptId: true },
+        });
+        const alreadyViewed = new Set(recentViews.map(view => view.scriptId));
+        const newIds = ids.filter(id => !alreadyViewed.has(id));
+        if (newIds.length === 0) {
+            return [];
+        }
+
+        await prisma.$transaction([
+            prisma.scriptView.createMany({ data: newIds.map(scriptId => ({ scriptId, clientHash })) }),
+            // Raw SQL so the scripts' updatedAt (content changes only) is left alone
+            prisma.$executeRaw`UPDATE script_snips SET "viewCount" = "viewCount" + 1 WHERE id IN (${Prisma.join(newIds)})`,
+        ]);
+        return newIds;
+    } catch (error) {
+        console.error("Failed to record script views:", error);
+        return [];
+    }
+};
+
+// Individual views are only read for deduping and for the trending windows; older rows are deleted
+// (the scripts' viewCount totals stay as they are)
+export const pruneViews = async (): Promise<{ count: number; cutoff: Date }> => {
+    const retentionMinutes = Math.max(getViewDedupeMinutes(), ...Object.values(TRENDING_WINDOWS).map(hours => hours * 60));
+    const cutoff = new Date(Date.now() - retentionMinutes * 60 * 1000);
+    const { count } = await prisma.scriptView.deleteMany({ where: { createdAt: { lt: cutoff } } });
+    return { count, cutoff };
+};
@@ -0,0 +1,20 @@
+import { Prisma } from '@prisma/client';
+
+// Scripts that still exist for their creator and admins (not in the trash)
+export const liveScriptWhere: Prisma.ScriptSnipWhereInput = {
+    deletedAt: null,
+};
+
+// Which scripts public read paths (list, random, batch, by ID, tags) may return.
+// Keep the Prisma and raw SQL versions in sync.
+export const visibleScriptWhere: Prisma.ScriptSnipWhereInput = {
+    ...liveScriptWhere,
+    status: 'approved', // Pending and rejected scripts are only shown to their creator and admins
+    hiddenAt: null, // Hidden after too many reader reports, until an admin reviews them
+};
+
+export const visibleScriptSql = Prisma.sql`"deletedAt" IS NULL AND "status" = 'approved' AND "hiddenAt" IS NULL`;
+
+// True if a live script may be shown to anyone
+export const isPubliclyVisible = (script: { status: string; hiddenAt?: Date | null }): boolean =>
+    script.status === 'approved' && !script.hiddenAt;
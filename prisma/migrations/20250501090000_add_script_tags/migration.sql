@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "script_snips_tags_idx" ON "script_snips" USING GIN ("tags");
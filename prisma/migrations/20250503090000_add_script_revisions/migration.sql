@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "script_revisions" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT,
+    "characters" TEXT[],
+    "lines" JSONB NOT NULL,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "restoredFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "script_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "script_revisions_scriptId_revision_key" ON "script_revisions"("scriptId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "script_revisions" ADD CONSTRAINT "script_revisions_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: record the current content of every existing script as its first revision
+INSERT INTO "script_revisions" ("id", "scriptId", "revision", "title", "characters", "lines", "tags", "createdAt")
+SELECT 'rev1_' || "id", "id", 1, "title", "characters", "lines", "tags", "createdAt"
+FROM "script_snips";
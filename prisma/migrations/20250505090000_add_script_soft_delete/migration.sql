@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "script_snips_deletedAt_idx" ON "script_snips"("deletedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "editTokenHash" TEXT;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ModerationStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "moderationReason" TEXT,
+ADD COLUMN     "status" "ModerationStatus" NOT NULL DEFAULT 'approved';
+
+-- CreateIndex
+CREATE INDEX "script_snips_status_idx" ON "script_snips"("status");
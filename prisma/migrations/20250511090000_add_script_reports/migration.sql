@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ReportReason" AS ENUM ('spam', 'offensive', 'harassment', 'personal_info', 'broken', 'copyright', 'other');
+
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "hiddenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "script_reports" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "reason" "ReportReason" NOT NULL,
+    "note" TEXT,
+    "reporterHash" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "script_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "script_reports_resolvedAt_idx" ON "script_reports"("resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "script_reports_scriptId_reporterHash_key" ON "script_reports"("scriptId", "reporterHash");
+
+-- AddForeignKey
+ALTER TABLE "script_reports" ADD CONSTRAINT "script_reports_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
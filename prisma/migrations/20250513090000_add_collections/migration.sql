@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "collections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "shareSlug" TEXT NOT NULL,
+    "editTokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_items" (
+    "id" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collection_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collections_shareSlug_key" ON "collections"("shareSlug");
+
+-- CreateIndex
+CREATE INDEX "collection_items_scriptId_idx" ON "collection_items"("scriptId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_items_collectionId_scriptId_key" ON "collection_items"("collectionId", "scriptId");
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ReactionType" AS ENUM ('laugh', 'chills', 'applause', 'tears');
+
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "reactionCounts" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "reactionTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "script_reactions" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "type" "ReactionType" NOT NULL,
+    "clientHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "script_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "script_snips_reactionTotal_idx" ON "script_snips"("reactionTotal");
+
+-- CreateIndex
+CREATE INDEX "script_reactions_scriptId_createdAt_idx" ON "script_reactions"("scriptId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "script_reactions_scriptId_type_clientHash_key" ON "script_reactions"("scriptId", "type", "clientHash");
+
+-- AddForeignKey
+ALTER TABLE "script_reactions" ADD CONSTRAINT "script_reactions_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
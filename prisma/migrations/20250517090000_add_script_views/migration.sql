@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "viewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "script_views" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "clientHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "script_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "script_views_scriptId_createdAt_idx" ON "script_views"("scriptId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "script_views_clientHash_createdAt_idx" ON "script_views"("clientHash", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "script_views" ADD CONSTRAINT "script_views_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "script_comments" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "displayName" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "deleteTokenHash" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "script_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "script_comments_scriptId_parentId_createdAt_idx" ON "script_comments"("scriptId", "parentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "script_comments_parentId_idx" ON "script_comments"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "script_comments" ADD CONSTRAINT "script_comments_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "script_comments" ADD CONSTRAINT "script_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "script_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "script_snips_parentId_idx" ON "script_snips"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "script_snips" ADD CONSTRAINT "script_snips_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "script_snips"("id") ON DELETE SET NULL ON UPDATE CASCADE;
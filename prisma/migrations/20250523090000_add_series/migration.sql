@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "series" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "editTokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "series_episodes" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "series_episodes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "series_episodes_scriptId_key" ON "series_episodes"("scriptId");
+
+-- CreateIndex
+CREATE INDEX "series_episodes_seriesId_position_idx" ON "series_episodes"("seriesId", "position");
+
+-- AddForeignKey
+ALTER TABLE "series_episodes" ADD CONSTRAINT "series_episodes_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "series_episodes" ADD CONSTRAINT "series_episodes_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "characters" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "bio" TEXT,
+    "editTokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "characters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "script_characters" (
+    "id" TEXT NOT NULL,
+    "scriptId" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "castName" TEXT NOT NULL,
+
+    CONSTRAINT "script_characters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "characters_name_key" ON "characters"("name");
+
+-- CreateIndex
+CREATE INDEX "script_characters_characterId_idx" ON "script_characters"("characterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "script_characters_scriptId_castName_key" ON "script_characters"("scriptId", "castName");
+
+-- AddForeignKey
+ALTER TABLE "script_characters" ADD CONSTRAINT "script_characters_scriptId_fkey" FOREIGN KEY ("scriptId") REFERENCES "script_snips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "script_characters" ADD CONSTRAINT "script_characters_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "characters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
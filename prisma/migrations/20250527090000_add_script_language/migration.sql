@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "translationOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "script_snips_language_idx" ON "script_snips"("language");
+
+-- CreateIndex
+CREATE INDEX "script_snips_translationOfId_idx" ON "script_snips"("translationOfId");
+
+-- AddForeignKey
+ALTER TABLE "script_snips" ADD CONSTRAINT "script_snips_translationOfId_fkey" FOREIGN KEY ("translationOfId") REFERENCES "script_snips"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "script_snips" ADD COLUMN     "searchDocument" tsvector;
+
+-- Keep the search document in sync with the content: title (A), cast (B), then the words of every line (C).
+-- Dialogue lines keep their words in 'dialogue', every other line type in 'text'.
+CREATE FUNCTION script_snips_search_document() RETURNS trigger AS $$
+BEGIN
+    NEW."searchDocument" :=
+        setweight(to_tsvector('english', COALESCE(NEW."title", '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(NEW."characters", ' ')), 'B') ||
+        setweight(to_tsvector('english', COALESCE((
+            SELECT string_agg(COALESCE(line->>'dialogue', line->>'text', ''), ' ')
+            FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW."lines") = 'array' THEN NEW."lines" ELSE '[]'::jsonb END) AS line
+        ), '')), 'C');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "script_snips_search_document_trigger"
+BEFORE INSERT OR UPDATE OF "title", "characters", "lines" ON "script_snips"
+FOR EACH ROW EXECUTE FUNCTION script_snips_search_document();
+
+-- Backfill existing scripts (the trigger fires on the no-op update)
+UPDATE "script_snips" SET "title" = "title";
+
+-- CreateIndex
+CREATE INDEX "script_snips_searchDocument_idx" ON "script_snips" USING GIN ("searchDocument");
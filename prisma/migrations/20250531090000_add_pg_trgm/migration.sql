@@ -0,0 +1,2 @@
+-- Trigram similarity (similarity(), %) for "more like this" recommendations
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
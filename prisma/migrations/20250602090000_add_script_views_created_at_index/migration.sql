@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "script_views_createdAt_idx" ON "script_views"("createdAt");